@@ -13,81 +13,347 @@ class PluginError extends Error {
 // CONSTANTS
 // ============================================================================
 const PLUGIN_CONFIG = {
-    BATCH_SIZE: 10,
-    MAX_VARIABLE_NAME_LENGTH: 50,
-    DEFAULT_COLLECTION_NAME: "Text to String",
-    PROGRESS_UPDATE_DELAY: 10,
     UI_DIMENSIONS: {
         width: 380,
         height: 560
     }
 };
+const DEFAULT_NAMING_OPTIONS = {
+    strategy: 'hierarchical',
+    casing: 'snake',
+    template: '{page}/{component}/{layer}',
+    variants: 'shared',
+    characters: 'unicode',
+    transliterate: false,
+    transliterations: {}
+};
+// File names and Android resource names only accept ASCII
+const ASCII_NAME_OPTIONS = {
+    characters: 'ascii',
+    transliterate: true,
+    transliterations: {}
+};
+const DEFAULT_DEDUP_OPTIONS = {
+    enabled: false,
+    trim: true,
+    ignoreCase: false,
+    collapseWhitespace: true,
+    ignorePunctuation: false,
+    nameWinner: 'first'
+};
+const DEFAULT_ELIGIBILITY_RULES = {
+    scripts: [],
+    minLength: 1,
+    include: [],
+    exclude: [],
+    ignoredPrefixes: [],
+    skipNumericOnly: true,
+    skipLoremIpsum: true
+};
+const TRAVERSABLE_TYPES = ['FRAME', 'GROUP', 'SECTION', 'COMPONENT', 'COMPONENT_SET', 'INSTANCE'];
+const DEFAULT_TRAVERSAL_OPTIONS = {
+    maxDepth: 100,
+    descendInto: TRAVERSABLE_TYPES.slice(),
+    include: [],
+    exclude: [],
+    includeHidden: false,
+    includeLocked: false
+};
+const DEFAULT_SETTINGS = {
+    batchSize: 10,
+    maxVariableNameLength: 50,
+    defaultCollectionName: "Text to String",
+    progressUpdateDelay: 10,
+    naming: DEFAULT_NAMING_OPTIONS,
+    modeFill: 'copy',
+    modePlaceholder: '[{mode}] {text}',
+    dedup: DEFAULT_DEDUP_OPTIONS,
+    mixedStyles: 'flatten',
+    componentText: 'direct',
+    detectPlaceholders: true,
+    rules: DEFAULT_ELIGIBILITY_RULES,
+    traversal: DEFAULT_TRAVERSAL_OPTIONS
+};
+const SETTINGS_LIMITS = {
+    batchSize: { min: 1, max: 500 },
+    maxVariableNameLength: { min: 10, max: 255 },
+    defaultCollectionName: { min: 1, max: 100 },
+    progressUpdateDelay: { min: 0, max: 1000 },
+    modePlaceholder: { min: 1, max: 100 },
+    'rules.minLength': { min: 1, max: 100 },
+    'traversal.maxDepth': { min: 1, max: 100 },
+    'naming.transliterations': { min: 0, max: 200 },
+    ruleListLength: { min: 0, max: 50 }
+};
+const NAMING_STRATEGIES = ['hierarchical', 'content', 'layer', 'path', 'template'];
+const NAMING_CASINGS = ['snake', 'camel', 'kebab', 'pascal'];
+const NAME_CHARACTER_SETS = ['unicode', 'ascii'];
+const VARIANT_NAMINGS = ['shared', 'per-variant'];
+const MODE_FILL_POLICIES = ['copy', 'empty', 'placeholder'];
+const MIXED_STYLE_POLICIES = ['flatten', 'skip', 'split'];
+const COMPONENT_TEXT_MODES = ['direct', 'properties'];
+// Range properties that a single characters binding would flatten
+const MIXED_STYLE_FIELDS = [
+    'fontName',
+    'fontSize',
+    'fontWeight',
+    'fills',
+    'fillStyleId',
+    'textStyleId',
+    'textDecoration',
+    'textCase',
+    'letterSpacing',
+    'lineHeight',
+    'hyperlink'
+];
+// Variable type and scope for each typography field a run can bind
+const TYPOGRAPHY_FIELDS = {
+    fontFamily: { type: 'STRING', scope: 'FONT_FAMILY', label: 'font family' },
+    fontSize: { type: 'FLOAT', scope: 'FONT_SIZE', label: 'font size' },
+    fontWeight: { type: 'FLOAT', scope: 'FONT_WEIGHT', label: 'font weight' },
+    letterSpacing: { type: 'FLOAT', scope: 'LETTER_SPACING', label: 'letter spacing' },
+    lineHeight: { type: 'FLOAT', scope: 'LINE_HEIGHT', label: 'line height' }
+};
+const TYPOGRAPHY_FIELD_IDS = Object.keys(TYPOGRAPHY_FIELDS);
+// Unstyled text is grouped by the role its font size suggests, largest first
+const TYPOGRAPHY_ROLES = [
+    { role: 'display', minFontSize: 40 },
+    { role: 'heading', minFontSize: 24 },
+    { role: 'title', minFontSize: 18 },
+    { role: 'body', minFontSize: 14 },
+    { role: 'caption', minFontSize: 0 }
+];
+const DEDUP_NAME_WINNERS = ['first', 'shortest', 'most-common'];
+// Unicode property escapes for each script a rule set can allow
+const TEXT_SCRIPTS = {
+    latin: '\\p{Script=Latin}',
+    cyrillic: '\\p{Script=Cyrillic}',
+    greek: '\\p{Script=Greek}',
+    arabic: '\\p{Script=Arabic}',
+    hebrew: '\\p{Script=Hebrew}',
+    han: '\\p{Script=Han}',
+    kana: '\\p{Script=Hiragana}\\p{Script=Katakana}',
+    hangul: '\\p{Script=Hangul}',
+    devanagari: '\\p{Script=Devanagari}',
+    thai: '\\p{Script=Thai}'
+};
+const TEXT_SCRIPT_IDS = Object.keys(TEXT_SCRIPTS);
+// Cap on skipped layers listed in a scan report; the total is always sent
+const MAX_REPORTED_SKIPS = 500;
+// Cap on issues listed in an audit report; counts and coverage always cover everything
+const MAX_REPORTED_AUDIT_ISSUES = 1000;
+const NAMING_TEMPLATE_TOKEN = /\{(page|component|variant|parent|layer|text)\}/g;
 const ERROR_CODES = {
     COLLECTION_NOT_FOUND: 'COLLECTION_NOT_FOUND',
+    MODE_NOT_FOUND: 'MODE_NOT_FOUND',
     INVALID_TEXT: 'INVALID_TEXT',
     VARIABLE_CREATION_FAILED: 'VARIABLE_CREATION_FAILED',
-    BINDING_FAILED: 'BINDING_FAILED'
+    BINDING_FAILED: 'BINDING_FAILED',
+    SPLIT_FAILED: 'SPLIT_FAILED',
+    VARIABLE_NAME_TAKEN: 'VARIABLE_NAME_TAKEN',
+    INVALID_SETTINGS: 'INVALID_SETTINGS',
+    EXPORT_FAILED: 'EXPORT_FAILED',
+    IMPORT_FAILED: 'IMPORT_FAILED'
+};
+const EXPORT_FORMATS = ['i18next', 'flat-json', 'android', 'ios-strings', 'xcstrings', 'po'];
+const IMPORT_FILE_EXTENSIONS = {
+    json: 'json',
+    xcstrings: 'xcstrings',
+    xlf: 'xliff',
+    xliff: 'xliff',
+    po: 'po',
+    strings: 'ios-strings'
+};
+// Alias chains longer than this are treated as unresolvable
+const MAX_ALIAS_DEPTH = 10;
+const PLUGIN_DATA_KEYS = {
+    RUN_JOURNAL: 'stringify:lastRun',
+    SETTINGS: 'stringify:settings',
+    PLACEHOLDERS: 'stringify:placeholders'
+};
+const CLIENT_STORAGE_KEYS = {
+    SETTINGS: 'stringify:settings'
 };
+// Plugin data entries are size limited, so large journals are split across keys
+const RUN_JOURNAL_CHUNK_SIZE = 90000;
 const UI_MESSAGES = {
     COLLECTION_CREATED: 'Collection created successfully'
 };
 const VARIABLE_NAME_PATTERNS = {
-    SAFE_CHARS: /[A-Za-z0-9_]/,
     REPLACE_CHARS: /[^A-Za-z0-9_]/g,
+    REPLACE_CHARS_UNICODE: new RegExp('[^\\p{L}\\p{M}\\p{N}_]', 'gu'),
     MULTIPLE_UNDERSCORES: /_{2,}/g,
-    EDGE_UNDERSCORES: /^_+|_+$/g
+    EDGE_UNDERSCORES: /^_+|_+$/g,
+    WORD_SEPARATORS: /[^A-Za-z0-9]+/,
+    WORD_SEPARATORS_UNICODE: new RegExp('[^\\p{L}\\p{M}\\p{N}]+', 'u'),
+    // A word is a letter followed by lowercase or uncased letters, so camelCase humps start new words
+    WORD_TAIL_AFTER_THREE: new RegExp('(\\p{L}[\\p{Ll}\\p{Lo}\\p{Lm}]{2})[\\p{Ll}\\p{Lo}\\p{Lm}\\p{M}]+', 'gu'),
+    WORD_TAIL_AFTER_ONE: new RegExp('(\\p{L})[\\p{Ll}\\p{Lo}\\p{Lm}\\p{M}]+', 'gu'),
+    TRAILING_SEPARATORS: /[_-]+$/
+};
+// Romanization used when transliteration is on. Cyrillic follows the Ukrainian
+// national system; kanji have no table and are kept or dropped with the other letters
+const TRANSLITERATION_TABLE = {
+    а: 'a', б: 'b', в: 'v', г: 'h', ґ: 'g', д: 'd', е: 'e', є: 'ie', ж: 'zh', з: 'z', и: 'y', і: 'i', ї: 'i',
+    й: 'i', к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u', ф: 'f', х: 'kh',
+    ц: 'ts', ч: 'ch', ш: 'sh', щ: 'shch', ь: '', ъ: '', ю: 'iu', я: 'ia', ё: 'io', ы: 'y', э: 'e',
+    α: 'a', β: 'v', γ: 'g', δ: 'd', ε: 'e', ζ: 'z', η: 'i', θ: 'th', ι: 'i', κ: 'k', λ: 'l', μ: 'm', ν: 'n',
+    ξ: 'x', ο: 'o', π: 'p', ρ: 'r', σ: 's', ς: 's', τ: 't', υ: 'y', φ: 'f', χ: 'ch', ψ: 'ps', ω: 'o',
+    ά: 'a', έ: 'e', ή: 'i', ί: 'i', ό: 'o', ύ: 'y', ώ: 'o',
+    ß: 'ss', æ: 'ae', œ: 'oe', ø: 'o', ł: 'l', đ: 'd', ð: 'd', þ: 'th'
+};
+// Hepburn romaji for hiragana and katakana, including the common digraphs
+const KANA_ROMAJI = (() => {
+    const rows = [
+        'あa いi うu えe おo かka きki くku けke こko さsa しshi すsu せse そso たta ちchi つtsu てte とto',
+        'なna にni ぬnu ねne のno はha ひhi ふfu へhe ほho まma みmi むmu めme もmo やya ゆyu よyo',
+        'らra りri るru れre ろro わwa をo んn がga ぎgi ぐgu げge ごgo ざza じji ずzu ぜze ぞzo',
+        'だda ぢji づzu でde どdo ばba びbi ぶbu べbe ぼbo ぱpa ぴpi ぷpu ぺpe ぽpo ゔvu',
+        'ぁa ぃi ぅu ぇe ぉo ゃya ゅyu ょyo ゎwa',
+        'きゃkya きゅkyu きょkyo しゃsha しゅshu しょsho ちゃcha ちゅchu ちょcho にゃnya にゅnyu にょnyo',
+        'ひゃhya ひゅhyu ひょhyo みゃmya みゅmyu みょmyo りゃrya りゅryu りょryo ぎゃgya ぎゅgyu ぎょgyo',
+        'じゃja じゅju じょjo びゃbya びゅbyu びょbyo ぴゃpya ぴゅpyu ぴょpyo'
+    ];
+    const table = { 'ー': '' };
+    for (const entry of rows.join(' ').split(' ')) {
+        const kana = entry.replace(/[a-z]+$/, '');
+        const romaji = entry.slice(kana.length);
+        table[kana] = romaji;
+        // Katakana sit 0x60 code points after their hiragana
+        table[kana.replace(/[\u3041-\u3096]/g, char => String.fromCharCode(char.charCodeAt(0) + 0x60))] = romaji;
+    }
+    return table;
+})();
+const CONTENT_PATTERNS = {
+    WHITESPACE: /\s+/g,
+    // Built at runtime because Unicode property escapes need the u flag
+    PUNCTUATION: new RegExp('\\p{P}', 'gu'),
+    LETTER: new RegExp('\\p{L}', 'u'),
+    LETTER_OR_DIGIT: new RegExp('[\\p{L}\\p{N}]', 'u'),
+    NUMERIC_ONLY: new RegExp('^[\\p{N}\\p{P}\\p{S}\\s]+$', 'u'),
+    LOREM_IPSUM: /\b(?:lorem ipsum|dolor sit amet|consectetur adipiscing|sed do eiusmod)\b/i,
+    LATIN: new RegExp('\\p{Script=Latin}', 'u'),
+    MARKS: new RegExp('\\p{M}', 'gu')
 };
+// Rule patterns come from settings, so each is compiled once and reused across layers
+const RULE_PATTERN_CACHE = new Map();
+const MONTH_NAMES = '(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)';
+// Sample data that engineering fills in at runtime, in priority order: earlier
+// patterns claim their span before later ones can match inside it
+const PLACEHOLDER_PATTERNS = [
+    {
+        type: 'date',
+        source: `\\b\\d{4}-\\d{2}-\\d{2}\\b|\\b\\d{1,2}[./]\\d{1,2}[./]\\d{2,4}\\b|\\b${MONTH_NAMES}\\.? \\d{1,2}(?:st|nd|rd|th)?(?:, \\d{4})?\\b|\\b\\d{1,2} ${MONTH_NAMES}\\.?(?: \\d{4})?\\b`,
+        flags: 'g'
+    },
+    { type: 'time', source: '\\b\\d{1,2}:\\d{2}(?:\\s?[AaPp][Mm]\\b)?', flags: 'g' },
+    {
+        type: 'currency',
+        source: '[$€£¥₹]\\s?\\d[\\d,]*(?:\\.\\d+)?|\\b\\d[\\d,]*(?:\\.\\d+)?\\s?(?:[€£]|(?:USD|EUR|GBP|JPY|CHF)\\b)',
+        flags: 'g'
+    },
+    { type: 'number', source: '\\b\\d[\\d,]*(?:\\.\\d+)?\\b', flags: 'g' },
+    {
+        type: 'name',
+        source: '\\b(?:Hello|Hi|Hey|Dear|Thanks|Thank you|Welcome(?: back)?|Good (?:morning|afternoon|evening)|Congrats|Congratulations),?\\s+(\\p{Lu}\\p{Ll}+)',
+        flags: 'gu',
+        group: 1
+    }
+];
+const PLACEHOLDER_NAMES = {
+    number: 'count',
+    currency: 'amount',
+    date: 'date',
+    time: 'time',
+    name: 'name'
+};
+// Capitalized words that follow a greeting without being someone's name
+const NON_NAME_WORDS = new Set(['All', 'Again', 'Back', 'Everyone', 'Everybody', 'Friend', 'Friends', 'Team', 'There', 'World']);
+const PLURAL_MESSAGE = /^\{(\w+), ?plural, ?([\s\S]*)\}$/;
 // ============================================================================
 // TEXT PROCESSING FUNCTIONS
 // ============================================================================
-function isValidTextForVariable(text) {
+function getRulePattern(source, flags = 'iu') {
+    const key = `${flags}/${source}`;
+    let pattern = RULE_PATTERN_CACHE.get(key);
+    if (!pattern) {
+        pattern = new RegExp(source, flags);
+        RULE_PATTERN_CACHE.set(key, pattern);
+    }
+    return pattern;
+}
+function hasDisallowedScript(text, scripts) {
+    const allowed = getRulePattern(`[${scripts.map(script => TEXT_SCRIPTS[script]).join('')}]`, 'gu');
+    return CONTENT_PATTERNS.LETTER.test(text.replace(allowed, ''));
+}
+function getTextSkipReason(text, layerName, rules) {
     const trimmed = text.trim();
-    if (!trimmed || trimmed.length === 0)
-        return false;
-    const firstChar = trimmed[0];
-    return VARIABLE_NAME_PATTERNS.SAFE_CHARS.test(firstChar);
+    if (!CONTENT_PATTERNS.LETTER_OR_DIGIT.test(trimmed))
+        return 'no-letters';
+    if (rules.ignoredPrefixes.some(prefix => layerName.startsWith(prefix)))
+        return 'ignored-prefix';
+    if (Array.from(trimmed).length < rules.minLength)
+        return 'too-short';
+    if (rules.skipNumericOnly && CONTENT_PATTERNS.NUMERIC_ONLY.test(trimmed))
+        return 'numeric-only';
+    if (rules.skipLoremIpsum && CONTENT_PATTERNS.LOREM_IPSUM.test(trimmed))
+        return 'lorem-ipsum';
+    if (rules.scripts.length > 0 && hasDisallowedScript(trimmed, rules.scripts))
+        return 'script';
+    if (rules.exclude.some(source => getRulePattern(source).test(trimmed)))
+        return 'excluded';
+    if (rules.include.length > 0 && !rules.include.some(source => getRulePattern(source).test(trimmed)))
+        return 'not-included';
+    return null;
 }
-function createVariableName(text, textNode) {
+function createVariableName(text, textNode, settings = DEFAULT_SETTINGS) {
+    const { naming } = settings;
     if (!text || text.trim().length === 0) {
         throw new PluginError('Cannot create variable name from empty text', {
             code: ERROR_CODES.INVALID_TEXT
         });
     }
-    // If no textNode provided, use simple naming
+    // Without a textNode only the content is available to name from
     if (!textNode) {
-        return createSimpleVariableName(text);
+        return createSimpleVariableName(text, naming);
+    }
+    let variableName;
+    switch (naming.strategy) {
+        case 'content':
+            variableName = createSimpleVariableName(text, naming);
+            break;
+        case 'layer':
+            variableName = createLeafName(textNode, naming);
+            break;
+        case 'path':
+            variableName = createAncestorPathVariableName(textNode, naming);
+            break;
+        case 'template':
+            variableName = createTemplateVariableName(text, textNode, naming);
+            break;
+        default:
+            // Create hierarchical naming: Group 2 / Group 1 / Name
+            variableName = createHierarchicalVariableName(text, textNode, naming);
     }
-    // Create hierarchical naming: Group 2 / Group 1 / Name
-    const hierarchicalName = createHierarchicalVariableName(text, textNode);
-    if (hierarchicalName.length > PLUGIN_CONFIG.MAX_VARIABLE_NAME_LENGTH) {
-        return truncateVariableName(hierarchicalName);
+    if (variableName.length > settings.maxVariableNameLength) {
+        return truncateVariableName(variableName, settings.maxVariableNameLength);
     }
-    return hierarchicalName;
+    return variableName;
 }
-function createSimpleVariableName(text) {
-    let processed = text
-        .trim()
-        .toLowerCase()
-        .replace(/\s+/g, '_') // Convert spaces to underscores first
-        .replace(VARIABLE_NAME_PATTERNS.REPLACE_CHARS, '_') // Replace other invalid chars with underscores
-        .replace(VARIABLE_NAME_PATTERNS.MULTIPLE_UNDERSCORES, '_')
-        .replace(VARIABLE_NAME_PATTERNS.EDGE_UNDERSCORES, '');
-    if (!processed) {
-        processed = 'text_variable';
-    }
-    return processed;
+function createSimpleVariableName(text, naming = DEFAULT_NAMING_OPTIONS) {
+    return sanitizeName(text, naming.casing, naming) || fallbackVariableName(naming.casing);
+}
+function fallbackVariableName(casing) {
+    return applyCasing(['text', 'variable'], casing);
 }
-function createHierarchicalVariableName(text, textNode) {
+function createHierarchicalVariableName(text, textNode, naming = DEFAULT_NAMING_OPTIONS) {
     const parts = [];
     // Use the layer name for variable naming (no text content suffix)
-    let textName = sanitizeName(textNode.name);
-    if (!textName) {
-        textName = 'text_variable';
-    }
+    const textName = createLeafName(textNode, naming);
     // Find meaningful parent using smart hierarchy traversal
-    const meaningfulParent = findMeaningfulParent(textNode);
+    const meaningfulParent = findMeaningfulParent(textNode, naming);
     // Find root component
-    const rootComponent = findRootComponent(textNode);
+    const rootComponent = findRootComponent(textNode, naming);
     // Build the hierarchical name: Component / MeaningfulParent / LayerName
     if (rootComponent && rootComponent !== 'root') {
         parts.push(rootComponent);
@@ -99,14 +365,84 @@ function createHierarchicalVariableName(text, textNode) {
     const finalName = parts.join('/');
     return finalName;
 }
-function findMeaningfulParent(textNode) {
+function createAncestorPathVariableName(textNode, naming) {
+    const parts = [];
+    let currentParent = textNode.parent;
+    while (currentParent && currentParent.type !== 'PAGE' && currentParent.type !== 'DOCUMENT') {
+        // Variant names move to the leaf, and only when the text differs between variants
+        const sanitizedName = isVariant(currentParent) ? '' : sanitizeName(currentParent.name, naming.casing, naming);
+        if (sanitizedName) {
+            parts.unshift(sanitizedName);
+        }
+        currentParent = currentParent.parent;
+    }
+    parts.push(createLeafName(textNode, naming));
+    return parts.join('/');
+}
+function createTemplateVariableName(text, textNode, naming) {
+    const { component, variant } = findComponentContext(textNode);
+    const parent = textNode.parent && textNode.parent.type !== 'PAGE' ? textNode.parent.name : '';
+    const values = {
+        page: findPageName(textNode),
+        component,
+        variant,
+        parent,
+        layer: textNode.name,
+        text
+    };
+    // Tokens that resolve to nothing drop their whole path segment
+    const parts = naming.template
+        .split('/')
+        .map(segment => segment.replace(NAMING_TEMPLATE_TOKEN, (_match, token) => values[token] || ''))
+        .map(segment => sanitizeName(segment, naming.casing, naming))
+        .filter(segment => segment.length > 0);
+    if (parts.length === 0) {
+        return createHierarchicalVariableName(text, textNode, naming);
+    }
+    return parts.join('/');
+}
+function findPageNode(node) {
+    let current = node;
+    while (current && current.type !== 'PAGE') {
+        current = current.parent;
+    }
+    return current;
+}
+function findPageName(node) {
+    const page = findPageNode(node);
+    return page ? page.name : '';
+}
+function findComponentContext(textNode) {
+    let currentParent = textNode.parent;
+    while (currentParent && currentParent.type !== 'PAGE') {
+        if (currentParent.type === 'COMPONENT_SET') {
+            return { component: currentParent.name, variant: '' };
+        }
+        if (currentParent.type === 'COMPONENT') {
+            // Variants live inside a component set that names the component
+            if (currentParent.parent && currentParent.parent.type === 'COMPONENT_SET') {
+                return { component: currentParent.parent.name, variant: currentParent.name };
+            }
+            return { component: currentParent.name, variant: '' };
+        }
+        currentParent = currentParent.parent;
+    }
+    return { component: '', variant: '' };
+}
+function findMeaningfulParent(textNode, naming = DEFAULT_NAMING_OPTIONS) {
     let currentParent = textNode.parent;
     const maxLevels = 10; // Prevent infinite loops
     let level = 0;
     while (currentParent && currentParent.type !== 'PAGE' && level < maxLevels) {
-        const sanitizedName = sanitizeName(currentParent.name);
+        // A variant is named by its set, and its property values go on the leaf
+        if (isVariant(currentParent)) {
+            currentParent = currentParent.parent;
+            level++;
+            continue;
+        }
+        const sanitizedName = sanitizeName(currentParent.name, naming.casing, naming);
         // Check if this is a meaningful name (not generic)
-        if (sanitizedName && !isGenericName(sanitizedName)) {
+        if (sanitizedName && !isGenericName(sanitizeName(currentParent.name))) {
             return sanitizedName;
         }
         // Stop if we hit a component boundary (unless it's also generic)
@@ -118,18 +454,96 @@ function findMeaningfulParent(textNode) {
     }
     return ''; // No meaningful parent found
 }
-function findRootComponent(textNode) {
+function findRootComponent(textNode, naming = DEFAULT_NAMING_OPTIONS) {
     let currentParent = textNode.parent;
     // Traverse up to find the root component
     while (currentParent && currentParent.type !== 'PAGE') {
-        if (currentParent.type === 'COMPONENT' || currentParent.type === 'COMPONENT_SET') {
-            const componentName = sanitizeName(currentParent.name);
+        if ((currentParent.type === 'COMPONENT' && !isVariant(currentParent)) || currentParent.type === 'COMPONENT_SET') {
+            const componentName = sanitizeName(currentParent.name, naming.casing, naming);
             return componentName || 'component';
         }
         currentParent = currentParent.parent;
     }
     return ''; // Not inside a component
 }
+function createLeafName(textNode, naming) {
+    const layerName = sanitizeName(textNode.name, naming.casing, naming) ? textNode.name : 'text variable';
+    const suffix = findVariantSuffix(textNode, naming.variants);
+    return sanitizeName(suffix ? `${layerName} ${suffix}` : layerName, naming.casing, naming);
+}
+function isVariant(node) {
+    var _a;
+    return node.type === 'COMPONENT' && ((_a = node.parent) === null || _a === void 0 ? void 0 : _a.type) === 'COMPONENT_SET';
+}
+// Variant names read "Size=Large, State=Hover"
+function parseVariantProperties(name) {
+    const properties = {};
+    for (const pair of name.split(',')) {
+        const separator = pair.indexOf('=');
+        if (separator > 0) {
+            properties[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim();
+        }
+    }
+    return properties;
+}
+// Follows the layer names from one variant into another to find the matching text
+function findMatchingTextInVariant(variant, layerPath) {
+    let current = variant;
+    for (const name of layerPath) {
+        const children = current && 'children' in current ? current.children : [];
+        current = children.find(child => child.name === name) || null;
+    }
+    return current && current.type === 'TEXT' ? current : null;
+}
+// Text shared by every variant keeps the plain name. Otherwise a variant whose text differs
+// from the default variant's is suffixed with the property values that set it apart
+function findVariantSuffix(textNode, variantNaming) {
+    const layerPath = [textNode.name];
+    let variant = textNode.parent;
+    while (variant && variant.type !== 'PAGE' && !isVariant(variant)) {
+        layerPath.unshift(variant.name);
+        variant = variant.parent;
+    }
+    if (!variant || !isVariant(variant)) {
+        return '';
+    }
+    const properties = parseVariantProperties(variant.name);
+    if (variantNaming === 'per-variant') {
+        return Object.keys(properties).map(key => properties[key]).join(' ') || variant.name;
+    }
+    const componentSet = variant.parent;
+    const text = textNode.characters.trim();
+    const variants = componentSet.children.filter((child) => child.type === 'COMPONENT');
+    const textByVariant = new Map();
+    for (const candidate of variants) {
+        const match = candidate === variant ? textNode : findMatchingTextInVariant(candidate, layerPath);
+        if (match) {
+            textByVariant.set(candidate, match.characters.trim());
+        }
+    }
+    // The default variant sets the baseline, or the first variant with the layer when it has none
+    const baseline = textByVariant.has(componentSet.defaultVariant)
+        ? componentSet.defaultVariant
+        : variants.find(candidate => textByVariant.has(candidate));
+    if (!baseline || textByVariant.get(baseline) === text) {
+        return '';
+    }
+    // Prefer values only variants with this text have, then values they all share,
+    // then anything that differs from the baseline
+    const baselineProperties = parseVariantProperties(baseline.name);
+    const compared = Array.from(textByVariant.keys());
+    const sameText = compared
+        .filter(candidate => textByVariant.get(candidate) === text)
+        .map(candidate => parseVariantProperties(candidate.name));
+    const otherText = compared
+        .filter(candidate => textByVariant.get(candidate) !== text)
+        .map(candidate => parseVariantProperties(candidate.name));
+    const differing = Object.keys(properties).filter(key => properties[key] !== baselineProperties[key]);
+    const distinctive = differing.filter(key => sameText.every(other => other[key] === properties[key]));
+    const decisive = distinctive.filter(key => otherText.every(other => other[key] !== properties[key]));
+    const keys = [decisive, distinctive, differing].find(candidates => candidates.length > 0) || [];
+    return keys.length > 0 ? keys.map(key => properties[key]).join(' ') : variant.name;
+}
 function isGenericName(name) {
     const genericPatterns = [
         /^frame(_\d+)?$/i,
@@ -148,144 +562,326 @@ function isGenericName(name) {
     ];
     return genericPatterns.some(pattern => pattern.test(name));
 }
-function sanitizeName(name) {
+function sanitizeName(name, casing = 'snake', characters = DEFAULT_NAMING_OPTIONS) {
     if (!name || name.trim().length === 0) {
         return '';
     }
+    const ascii = characters.characters === 'ascii';
+    const source = characters.transliterate ? transliterate(name, characters.transliterations) : name;
+    // Snake case keeps its original steps, so ASCII names from earlier runs still match.
+    // Accented and non-Latin letters now stay in the name (café, not caf) unless ascii characters are set
+    if (casing === 'snake') {
+        return source
+            .trim()
+            .toLowerCase()
+            .replace(/\s+/g, '_') // Convert spaces to underscores first
+            .replace(ascii ? VARIABLE_NAME_PATTERNS.REPLACE_CHARS : VARIABLE_NAME_PATTERNS.REPLACE_CHARS_UNICODE, '_') // Replace other invalid chars with underscores
+            .replace(VARIABLE_NAME_PATTERNS.MULTIPLE_UNDERSCORES, '_')
+            .replace(VARIABLE_NAME_PATTERNS.EDGE_UNDERSCORES, '');
+    }
+    return applyCasing(tokenizeName(source, ascii), casing);
+}
+function tokenizeName(name, ascii = false) {
     return name
-        .trim()
-        .toLowerCase()
-        .replace(/\s+/g, '_') // Convert spaces to underscores first
-        .replace(VARIABLE_NAME_PATTERNS.REPLACE_CHARS, '_') // Replace other invalid chars with underscores
-        .replace(VARIABLE_NAME_PATTERNS.MULTIPLE_UNDERSCORES, '_')
-        .replace(VARIABLE_NAME_PATTERNS.EDGE_UNDERSCORES, '');
-}
-function truncateVariableName(text) {
-    const maxLength = PLUGIN_CONFIG.MAX_VARIABLE_NAME_LENGTH;
-    const separator = '___';
-    const availableLength = maxLength - separator.length;
-    const startLength = Math.ceil(availableLength * 0.6);
-    const endLength = Math.floor(availableLength * 0.4);
-    const start = text.substring(0, startLength);
-    const end = text.substring(text.length - endLength);
-    return `${start}${separator}${end}`;
-}
-function validateTextLayer(node) {
-    var _a;
-    try {
-        // Skip layers already bound to variables
-        if ((_a = node.boundVariables) === null || _a === void 0 ? void 0 : _a.characters) {
-            return false;
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2') // Split camelCase humps
+        .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2') // Split acronyms from the next word
+        .split(ascii ? VARIABLE_NAME_PATTERNS.WORD_SEPARATORS : VARIABLE_NAME_PATTERNS.WORD_SEPARATORS_UNICODE)
+        .filter(word => word.length > 0)
+        .map(word => word.toLowerCase());
+}
+function transliterate(text, custom) {
+    // Custom entries win and may span several characters, such as whole kanji words
+    const customKeys = Object.keys(custom).filter(key => key.length > 0).sort((a, b) => b.length - a.length);
+    const characters = Array.from(text);
+    let result = '';
+    for (let i = 0; i < characters.length; i++) {
+        const rest = customKeys.length > 0 ? characters.slice(i).join('') : '';
+        const customKey = customKeys.find(key => rest.startsWith(key));
+        if (customKey) {
+            result += custom[customKey];
+            i += Array.from(customKey).length - 1;
+            continue;
         }
-        // Skip locked layers
-        if (node.locked) {
-            return false;
+        const character = characters[i];
+        const pair = character + (characters[i + 1] || '');
+        // Kana digraphs such as きゃ read as one syllable
+        if (KANA_ROMAJI[pair]) {
+            result += KANA_ROMAJI[pair];
+            i++;
+            continue;
         }
-        // Skip hidden layers - check both visible property and parent visibility
-        if (!node.visible) {
-            return false;
+        // A small tsu doubles the consonant that follows it
+        if (character === 'っ' || character === 'ッ') {
+            result += (KANA_ROMAJI[characters[i + 1] || ''] || '').charAt(0);
+            continue;
+        }
+        const lower = character.toLowerCase();
+        const mapped = KANA_ROMAJI[character] !== undefined ? KANA_ROMAJI[character] : TRANSLITERATION_TABLE[lower];
+        if (mapped !== undefined) {
+            // Keep capitals so camelCase humps still split the words
+            result += lower !== character ? mapped.charAt(0).toUpperCase() + mapped.slice(1) : mapped;
         }
-        // Additional check: if parent is hidden, this layer should also be considered hidden
-        let parent = node.parent;
-        while (parent && parent.type !== 'PAGE') {
-            if ('visible' in parent && !parent.visible) {
-                return false;
+        else if (CONTENT_PATTERNS.LATIN.test(character)) {
+            result += character.normalize('NFD').replace(CONTENT_PATTERNS.MARKS, '');
+        }
+        else {
+            result += character;
+        }
+    }
+    return result;
+}
+function applyCasing(words, casing) {
+    const capitalize = (word) => word.charAt(0).toUpperCase() + word.slice(1);
+    switch (casing) {
+        case 'camel':
+            return words.map((word, index) => index === 0 ? word : capitalize(word)).join('');
+        case 'pascal':
+            return words.map(capitalize).join('');
+        case 'kebab':
+            return words.join('-');
+        default:
+            return words.join('_');
+    }
+}
+function truncateVariableName(text, maxLength = DEFAULT_SETTINGS.maxVariableNameLength) {
+    if (text.length <= maxLength) {
+        return text;
+    }
+    // The hash of the full name keeps names that shorten alike apart
+    const suffix = `_${hashName(text)}`;
+    const segments = text.split('/');
+    const leafIndex = segments.length - 1;
+    const overflow = () => segments.join('/').length + suffix.length - maxLength;
+    // Middle groups are abbreviated first, longest first, then the top-level group
+    const middleGroups = segments.map((_segment, index) => index).slice(1, leafIndex)
+        .sort((a, b) => segments[b].length - segments[a].length);
+    const groupOrder = leafIndex > 0 ? [middleGroups, [0]] : [];
+    for (const indexes of groupOrder) {
+        for (const abbreviate of [abbreviateWords, abbreviateToInitials]) {
+            for (const index of indexes) {
+                if (overflow() <= 0)
+                    break;
+                segments[index] = abbreviate(segments[index]);
             }
-            parent = parent.parent;
         }
-        // Check if text content is valid for variable creation
-        const isValidText = isValidTextForVariable(node.characters);
-        if (!isValidText) {
-            return false;
+    }
+    // Then each group shrinks to its first letter, so every level of the path is kept
+    for (const index of [...middleGroups, ...(leafIndex > 0 ? [0] : [])]) {
+        if (overflow() <= 0)
+            break;
+        segments[index] = Array.from(segments[index]).slice(0, 1).join('');
+    }
+    // Only paths too deep to fit even that lose their innermost groups, keeping a letter of the leaf
+    const leafOverflow = () => overflow() - (segments[segments.length - 1].length - 1);
+    while (leafOverflow() > 0 && segments.length > 1) {
+        segments.splice(Math.max(0, segments.length - 2), 1);
+    }
+    // The leaf is cut last, and never past its first letter
+    if (overflow() > 0) {
+        const last = segments.length - 1;
+        segments[last] = segments[last].slice(0, Math.max(1, segments[last].length - overflow()));
+    }
+    return `${segments.join('/').replace(VARIABLE_NAME_PATTERNS.TRAILING_SEPARATORS, '')}${suffix}`;
+}
+function abbreviateWords(segment) {
+    return segment.replace(VARIABLE_NAME_PATTERNS.WORD_TAIL_AFTER_THREE, '$1');
+}
+function abbreviateToInitials(segment) {
+    return segment.replace(VARIABLE_NAME_PATTERNS.WORD_TAIL_AFTER_ONE, '$1');
+}
+function hashName(text) {
+    // FNV-1a: short, stable across runs and cheap enough to run per layer
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(36).padStart(5, '0').slice(-5);
+}
+function getTextLayerSkipReason(node, rules = activeSettings.rules, traversal = activeSettings.traversal) {
+    var _a;
+    try {
+        // Skip layers already bound to variables
+        if (((_a = node.boundVariables) === null || _a === void 0 ? void 0 : _a.characters) || isBoundThroughProperty(node)) {
+            return 'bound';
         }
-        return true;
+        // Skip locked and hidden layers unless the traversal settings opt into them
+        const traversalReason = getTraversalSkipReason(node, traversal);
+        if (traversalReason) {
+            return traversalReason;
+        }
+        // Check the text content against the eligibility rules
+        return getTextSkipReason(node.characters, node.name, rules);
     }
     catch (error) {
         console.warn(`Error validating text layer ${node.id}:`, error);
-        return false;
+        return 'unreadable';
+    }
+}
+function isHiddenInTree(node) {
+    if (!node.visible) {
+        return true;
+    }
+    let parent = node.parent;
+    while (parent && parent.type !== 'PAGE') {
+        if ('visible' in parent && !parent.visible) {
+            return true;
+        }
+        parent = parent.parent;
+    }
+    return false;
+}
+function validateTextLayer(node, rules, traversal) {
+    return getTextLayerSkipReason(node, rules, traversal) === null;
+}
+function hasMixedStyles(textNode) {
+    return MIXED_STYLE_FIELDS.some(field => textNode[field] === figma.mixed);
+}
+// ============================================================================
+// TRAVERSAL FUNCTIONS
+// ============================================================================
+function matchesLayerName(name, patterns) {
+    return patterns.some(source => getRulePattern(source).test(name));
+}
+function canDescendInto(node, options) {
+    return 'children' in node && options.descendInto.includes(node.type);
+}
+// The one walk behind counting, scanning, processing and the Ghostbuster and drift
+// scans. Roots are always entered; below them only the configured container types
+// are, down to the depth limit. Name filters apply to every layer below a page, and
+// a layer reachable from two roots is collected once.
+function collectTextNodes(roots, options = activeSettings.traversal) {
+    const visited = new Set();
+    const textNodes = [];
+    function visit(node, depth, included) {
+        if (visited.has(node.id))
+            return;
+        visited.add(node.id);
+        const named = node.type !== 'PAGE' && node.type !== 'DOCUMENT';
+        if (named && matchesLayerName(node.name, options.exclude))
+            return;
+        const isIncluded = included || (named && matchesLayerName(node.name, options.include));
+        if (node.type === 'TEXT') {
+            if (isIncluded)
+                textNodes.push(node);
+            return;
+        }
+        if (depth >= options.maxDepth || !('children' in node))
+            return;
+        if (depth > 0 && !canDescendInto(node, options))
+            return;
+        for (const child of node.children) {
+            visit(child, depth + 1, isIncluded);
+        }
     }
+    roots.forEach(root => visit(root, 0, options.include.length === 0));
+    return textNodes;
+}
+// Locked and hidden layers are still walked so scans can say why they were left out
+function getTraversalSkipReason(node, options = activeSettings.traversal) {
+    if (!options.includeLocked && node.locked)
+        return 'locked';
+    if (!options.includeHidden && isHiddenInTree(node))
+        return 'hidden';
+    return null;
 }
 // ============================================================================
 // ENHANCED SCANNING - SELECTION DETECTION
 // ============================================================================
-function determineScanScope() {
+// Counting walks the whole scope, so callers that walk it themselves skip the count
+function determineScanScope(countLayers = true) {
     const selection = figma.currentPage.selection;
     if (selection.length === 0) {
-        // For page scanning, we need to count all valid text nodes on the page
-        const allTextNodes = figma.currentPage.findAll(node => node.type === "TEXT");
-        const validTextNodes = allTextNodes.filter(validateTextLayer);
-        return {
+        const scope = {
             type: 'page',
-            targetNodes: [figma.currentPage], // PageNode is not SceneNode, but we need it for scanning
-            textNodeCount: validTextNodes.length,
+            targetNodes: [figma.currentPage],
+            textNodeCount: 0,
             description: 'Scanning entire page'
         };
+        if (countLayers)
+            scope.textNodeCount = findTextNodesInScope(scope).length;
+        return scope;
     }
-    // Expand selection to include meaningful containers
-    const expandedNodes = expandSelection(selection);
-    const textNodeCount = countTextNodesInSelection(expandedNodes);
-    return {
+    const scope = {
         type: 'selection',
-        targetNodes: expandedNodes,
-        textNodeCount: textNodeCount,
+        targetNodes: selection.slice(),
+        textNodeCount: 0,
         description: `Scanning ${selection.length} selected ${selection.length === 1 ? 'item' : 'items'}`
     };
+    if (countLayers)
+        scope.textNodeCount = findTextNodesInScope(scope).length;
+    return scope;
 }
-function expandSelection(selection) {
-    const expanded = [];
-    selection.forEach(node => {
-        expanded.push(node);
-        // Only expand meaningful containers to avoid including too many nodes
-        if (node.type === 'COMPONENT' || node.type === 'COMPONENT_SET' ||
-            node.type === 'FRAME' || node.type === 'GROUP') {
-            if ('children' in node) {
-                expanded.push(...node.children);
-            }
-        }
-    });
-    return expanded;
+function findTextNodesInScope(scope) {
+    return findScannedTextNodes(scope).filter(node => validateTextLayer(node));
 }
-function countTextNodesInSelection(nodes) {
-    // Performance optimization: limit depth to prevent infinite recursion
-    const maxDepth = 10;
-    let currentDepth = 0;
-    function countRecursive(nodeList) {
-        if (currentDepth >= maxDepth)
-            return 0;
-        let localCount = 0;
-        currentDepth++;
-        for (const node of nodeList) {
-            if (node.type === 'TEXT' && validateTextLayer(node)) {
-                localCount++;
-            }
-            else if ('children' in node && node.children.length > 0) {
-                localCount += countRecursive(node.children);
-            }
-        }
-        currentDepth--;
-        return localCount;
+async function loadScanPages(pageIds) {
+    const wanted = pageIds ? new Set(pageIds) : null;
+    const pages = figma.root.children.filter(page => !wanted || wanted.has(page.id));
+    // dynamic-page access only loads the current page up front
+    for (const page of pages) {
+        await page.loadAsync();
     }
-    return countRecursive(nodes);
+    return pages;
 }
-function findTextNodesInScope(scope) {
-    if (scope.type === 'selection') {
-        return findTextNodesInSelection(scope.targetNodes);
-    }
-    else {
-        return figma.currentPage.findAll(node => node.type === "TEXT" && validateTextLayer(node));
-    }
+function findTextNodesInPage(page) {
+    return collectTextNodes([page]).filter(node => validateTextLayer(node));
 }
-function findTextNodesInSelection(nodes) {
-    const textNodes = [];
-    nodes.forEach(node => {
-        if (node.type === 'TEXT' && validateTextLayer(node)) {
-            textNodes.push(node);
+// Every text layer in the scope, eligible or not, so skipped ones can be explained
+function findScannedTextNodes(scope) {
+    return collectTextNodes(scope.targetNodes);
+}
+function findSkippedTextLayers(scope) {
+    return partitionScannedTextNodes(scope).skipped;
+}
+// One walk that splits the scope into eligible layers and skipped ones with reasons
+function partitionScannedTextNodes(scope) {
+    const eligible = [];
+    const skipped = [];
+    for (const node of findScannedTextNodes(scope)) {
+        const reason = getTextLayerSkipReason(node);
+        if (reason) {
+            skipped.push({ id: node.id, name: node.name, characters: node.characters.slice(0, 80), reason });
         }
-        else if ('children' in node) {
-            textNodes.push(...findTextNodesInSelection(node.children));
+        else {
+            eligible.push(node);
         }
-    });
-    return textNodes;
+    }
+    return { eligible, skipped };
+}
+async function summarizePages() {
+    const pages = await loadScanPages();
+    return pages.map(page => ({
+        id: page.id,
+        name: page.name,
+        textLayerCount: findTextNodesInPage(page).length,
+        isCurrent: page.id === figma.currentPage.id
+    }));
+}
+// Picked pages scan the document page by page, otherwise the selection-aware scope applies
+async function resolveScan(pageIds) {
+    if (!pageIds) {
+        const scope = determineScanScope();
+        return { scope, textLayers: findTextNodesInScope(scope) };
+    }
+    if (pageIds.length === 0) {
+        throw new PluginError('Choose at least one page to scan');
+    }
+    const pages = await loadScanPages(pageIds);
+    if (pages.length === 0) {
+        throw new PluginError('None of the chosen pages exist anymore');
+    }
+    const textLayers = collectTextNodes(pages).filter(node => validateTextLayer(node));
+    return {
+        scope: {
+            type: 'document',
+            targetNodes: pages,
+            textNodeCount: textLayers.length,
+            description: `Scanning ${pages.length} ${pages.length === 1 ? 'page' : 'pages'}`,
+            pageIds: pages.map(page => page.id)
+        },
+        textLayers
+    };
 }
 function createScanPreview(scope) {
     return {
@@ -296,12 +892,13 @@ function createScanPreview(scope) {
         hasSelection: scope.type === 'selection'
     };
 }
-function preprocessTextForVariable(text, textNode) {
+function preprocessTextForVariable(text, textNode, settings = DEFAULT_SETTINGS) {
     const trimmed = text.trim();
     return {
         original: text,
         processed: trimmed, // Use text content for variable value
-        variableName: createVariableName(trimmed, textNode) // Use layer name for variable name
+        variableName: createVariableName(trimmed, textNode, settings), // Use layer name for variable name
+        placeholders: settings.detectPlaceholders ? detectPlaceholders(trimmed) : null
     };
 }
 // ============================================================================
@@ -313,7 +910,9 @@ async function getVariableCollections() {
         return collections.map(collection => ({
             id: collection.id,
             name: collection.name,
-            variables: collection.variableIds
+            variables: collection.variableIds,
+            defaultModeId: collection.defaultModeId,
+            modes: collection.modes.map(mode => ({ modeId: mode.modeId, name: mode.name }))
         }));
     }
     catch (error) {
@@ -321,14 +920,14 @@ async function getVariableCollections() {
         throw new PluginError('Failed to load variable collections');
     }
 }
-async function createDefaultCollection() {
+async function createDefaultCollection(baseName = DEFAULT_SETTINGS.defaultCollectionName) {
     try {
-        let collectionName = PLUGIN_CONFIG.DEFAULT_COLLECTION_NAME;
+        let collectionName = baseName;
         let counter = 1;
         const existingCollections = await figma.variables.getLocalVariableCollectionsAsync();
         const existingNames = new Set(existingCollections.map(c => c.name));
         while (existingNames.has(collectionName)) {
-            collectionName = `${PLUGIN_CONFIG.DEFAULT_COLLECTION_NAME} ${++counter}`;
+            collectionName = `${baseName} ${++counter}`;
         }
         const collection = figma.variables.createVariableCollection(collectionName);
         return collection.id;
@@ -348,42 +947,94 @@ async function validateCollection(collectionId) {
     }
     return collection;
 }
-async function getExistingVariables(collectionId) {
-    try {
-        const collection = await validateCollection(collectionId);
-        const variableMap = new Map();
-        for (const variableId of collection.variableIds) {
-            try {
-                const variable = await figma.variables.getVariableByIdAsync(variableId);
-                if (variable && variable.resolvedType === 'STRING') {
-                    const key = `${variable.name}:${variable.valuesByMode[collection.defaultModeId]}`;
-                    variableMap.set(key, variable);
+function resolveTargetModeId(collection, modeId) {
+    if (!modeId) {
+        return collection.defaultModeId;
+    }
+    if (!collection.modes.some(mode => mode.modeId === modeId)) {
+        throw new PluginError('The selected mode no longer exists in this collection', {
+            code: ERROR_CODES.MODE_NOT_FOUND,
+            context: { collectionId: collection.id, modeId }
+        });
+    }
+    return modeId;
+}
+async function buildVariableIndex(collectionId, modeId) {
+    const collection = await validateCollection(collectionId);
+    const index = {
+        collection,
+        modeId: resolveTargetModeId(collection, modeId),
+        byKey: new Map(),
+        names: new Set(),
+        conflictCounters: new Map()
+    };
+    for (const variableId of collection.variableIds) {
+        try {
+            const variable = await figma.variables.getVariableByIdAsync(variableId);
+            if (variable) {
+                // A collection cannot hold two variables of the same name, whatever their type
+                index.names.add(variable.name);
+                if (variable.resolvedType === 'STRING') {
+                    addToVariableIndex(index, variable);
                 }
             }
-            catch (error) {
-                console.warn(`Could not load variable ${variableId}:`, error);
-            }
         }
-        return variableMap;
+        catch (error) {
+            console.warn(`Could not load variable ${variableId}:`, error);
+        }
     }
-    catch (error) {
-        if (error instanceof PluginError)
-            throw error;
-        throw new PluginError('Failed to load existing variables');
+    return index;
+}
+function variableIndexKey(variableName, content) {
+    return `${variableName}:${content}`;
+}
+function addToVariableIndex(index, variable) {
+    const content = variable.valuesByMode[index.modeId];
+    index.byKey.set(variableIndexKey(variable.name, typeof content === 'string' ? content : String(content)), variable);
+    index.names.add(variable.name);
+}
+function findIndexedVariable(index, variableName, content) {
+    return index.byKey.get(variableIndexKey(variableName, content)) || null;
+}
+// Taken names get the next free numeric suffix (label, label_2, label_3); the
+// returned name is reserved straight away so a plan can claim names without creating anything
+function claimVariableName(index, variableName) {
+    let finalName = variableName;
+    if (index.names.has(variableName)) {
+        let counter = index.conflictCounters.get(variableName) || 1;
+        do {
+            counter++;
+            finalName = `${variableName}_${counter}`;
+        } while (index.names.has(finalName));
+        index.conflictCounters.set(variableName, counter);
+    }
+    index.names.add(finalName);
+    return finalName;
+}
+// Repair and fix passes may create into several collections; each one is indexed once per pass
+async function getPassVariableIndex(indexes, collectionId, modeId) {
+    const key = `${collectionId}:${modeId || ''}`;
+    let index = indexes.get(key);
+    if (!index) {
+        index = await buildVariableIndex(collectionId, modeId);
+        indexes.set(key, index);
     }
+    return index;
 }
-async function createStringVariable(collectionId, variableName, content) {
+function createIndexedVariable(index, variableName, content, resolveConflicts = true, settings = DEFAULT_SETTINGS) {
     try {
-        const collection = await validateCollection(collectionId);
-        const existingVariables = await getExistingVariables(collectionId);
-        const nameConflicts = Array.from(existingVariables.keys())
-            .filter(key => key.startsWith(`${variableName}:`));
-        let finalVariableName = variableName;
-        if (nameConflicts.length > 0) {
-            finalVariableName = `${variableName}_${nameConflicts.length + 1}`;
-        }
-        const variable = figma.variables.createVariable(finalVariableName, collection, 'STRING');
-        variable.setValueForMode(collection.defaultModeId, content);
+        const finalVariableName = resolveConflicts ? claimVariableName(index, variableName) : variableName;
+        const variable = figma.variables.createVariable(finalVariableName, index.collection, 'STRING');
+        variable.setValueForMode(index.modeId, content);
+        // Layers without an explicit mode show the default one, so it always gets the
+        // text: a blank or placeholder there would replace what the bound layer shows
+        const defaultModeId = index.collection.defaultModeId;
+        for (const mode of index.collection.modes) {
+            if (mode.modeId !== index.modeId) {
+                variable.setValueForMode(mode.modeId, mode.modeId === defaultModeId ? content : fillModeValue(content, mode.name, settings));
+            }
+        }
+        addToVariableIndex(index, variable);
         return variable;
     }
     catch (error) {
@@ -394,14 +1045,21 @@ async function createStringVariable(collectionId, variableName, content) {
         });
     }
 }
+function fillModeValue(content, modeName, settings) {
+    switch (settings.modeFill) {
+        case 'empty':
+            return '';
+        case 'placeholder':
+            return settings.modePlaceholder.replace(/\{text\}/g, content).replace(/\{mode\}/g, modeName);
+        default:
+            return content;
+    }
+}
 function bindTextNodeToVariable(textNode, variable) {
     try {
         if (textNode.removed) {
             throw new Error('Text node has been removed');
         }
-        if (textNode.locked) {
-            throw new Error('Text node is locked');
-        }
         textNode.setBoundVariable('characters', variable);
     }
     catch (error) {
@@ -418,189 +1076,2452 @@ function bindTextNodeToVariable(textNode, variable) {
         });
     }
 }
-function findExistingVariable(existingVariables, variableName, content) {
-    const key = `${variableName}:${content}`;
-    return existingVariables.get(key) || null;
+function normalizeContentKey(content, dedup) {
+    let key = content;
+    if (dedup.ignorePunctuation)
+        key = key.replace(CONTENT_PATTERNS.PUNCTUATION, '');
+    if (dedup.collapseWhitespace)
+        key = key.replace(CONTENT_PATTERNS.WHITESPACE, ' ');
+    if (dedup.trim)
+        key = key.trim();
+    if (dedup.ignoreCase)
+        key = key.toLocaleLowerCase();
+    return key;
 }
-function createVariableCache() {
-    return new Map();
-}
-function addToVariableCache(cache, variable, collection) {
-    const key = `${variable.name}:${variable.valuesByMode[collection.defaultModeId]}`;
-    const content = variable.valuesByMode[collection.defaultModeId];
-    cache.set(key, {
-        variable,
-        name: variable.name,
-        content: typeof content === 'string' ? content : String(content)
-    });
+function chooseDedupName(names, winner) {
+    switch (winner) {
+        case 'shortest':
+            return names.reduce((best, name) => name.length < best.length ? name : best);
+        case 'most-common': {
+            const counts = new Map();
+            names.forEach(name => counts.set(name, (counts.get(name) || 0) + 1));
+            return names.reduce((best, name) => (counts.get(name) || 0) > (counts.get(best) || 0) ? name : best);
+        }
+        default:
+            return names[0];
+    }
 }
-function getFromVariableCache(cache, variableName, content) {
-    const key = `${variableName}:${content}`;
-    const entry = cache.get(key);
-    return entry ? entry.variable : null;
+function createDedupIndex(textLayers, variableIndex, settings, nameOverrides) {
+    const variablesByContent = new Map();
+    for (const variable of variableIndex.byKey.values()) {
+        const value = variable.valuesByMode[variableIndex.modeId];
+        const key = typeof value === 'string' ? normalizeContentKey(value, settings.dedup) : '';
+        if (key && !variablesByContent.has(key)) {
+            variablesByContent.set(key, variable);
+        }
+    }
+    // Every layer sharing a string proposes a name; the configured rule picks one
+    const candidates = new Map();
+    for (const textLayer of textLayers) {
+        if (!validateTextLayer(textLayer, settings.rules, settings.traversal))
+            continue;
+        const { processed, variableName } = preprocessTextForVariable(textLayer.characters, textLayer, settings);
+        const key = normalizeContentKey(processed, settings.dedup);
+        if (!key)
+            continue;
+        const names = candidates.get(key) || [];
+        names.push((nameOverrides === null || nameOverrides === void 0 ? void 0 : nameOverrides.get(textLayer.id)) || variableName);
+        candidates.set(key, names);
+    }
+    const namesByContent = new Map();
+    candidates.forEach((names, key) => namesByContent.set(key, chooseDedupName(names, settings.dedup.nameWinner)));
+    return { variablesByContent, namesByContent };
 }
 // ============================================================================
-// GHOST VARIABLE DETECTION FUNCTIONS
+// COMPONENT PROPERTY FUNCTIONS
 // ============================================================================
-async function scanForGhostVariables() {
-    try {
-        // Phase 1: Build Set of all valid variable IDs from all collections
-        const allValidVariableIds = await buildValidVariableIdSet();
-        // Ghostbuster should always scan the entire page, not selection-aware
-        const allTextNodes = figma.currentPage.findAll(node => node.type === "TEXT");
-        // Filter for visible text nodes (additional validation)
-        const visibleTextNodes = allTextNodes.filter(node => {
-            // Check if node is visible and not hidden
-            if (!node.visible)
-                return false;
-            // Check if any parent is hidden
-            let parent = node.parent;
-            while (parent && parent.type !== 'PAGE') {
-                if ('visible' in parent && !parent.visible) {
-                    return false;
-                }
-                parent = parent.parent;
-            }
-            return true;
-        });
-        const ghosts = [];
-        for (const textNode of visibleTextNodes) {
-            // Apply the same validation logic as Stringify
-            if (!isValidTextForVariable(textNode.characters)) {
-                continue;
-            }
-            const ghostInfo = await checkVariableConnection(textNode, allValidVariableIds);
-            if (ghostInfo) {
-                ghosts.push(ghostInfo);
-            }
+// Variants share the property definitions of their component set
+function findPropertyOwner(component) {
+    var _a;
+    return ((_a = component.parent) === null || _a === void 0 ? void 0 : _a.type) === 'COMPONENT_SET' ? component.parent : component;
+}
+function findComponentAncestor(node) {
+    let current = node.parent;
+    while (current && current.type !== 'PAGE' && current.type !== 'DOCUMENT') {
+        if (current.type === 'INSTANCE' || current.type === 'COMPONENT') {
+            return current;
         }
-        return ghosts;
+        current = current.parent;
     }
-    catch (error) {
-        console.error('Error scanning for ghost variables:', error);
-        throw new PluginError('Failed to scan for ghost variables');
+    return null;
+}
+// Property names carry a "#id" suffix that the properties panel hides
+function getPropertyLabel(propertyName) {
+    return propertyName.replace(/#[^#]*$/, '');
+}
+function createPropertyLabel(label, existingNames) {
+    const labels = new Set(existingNames.map(getPropertyLabel));
+    let candidate = label;
+    let suffix = 2;
+    while (labels.has(candidate)) {
+        candidate = `${label} ${suffix}`;
+        suffix++;
     }
+    return candidate;
 }
-async function buildValidVariableIdSet() {
-    const allValidVariableIds = new Set();
-    try {
-        // Get all variable collections in the file
-        const collections = await figma.variables.getLocalVariableCollectionsAsync();
-        // Build Set of all valid variable IDs
-        for (const collection of collections) {
-            collection.variableIds.forEach(id => {
-                allValidVariableIds.add(id);
-            });
+function findPropertyBinding(textNode) {
+    var _a, _b, _c;
+    const propertyName = (_a = textNode.componentPropertyReferences) === null || _a === void 0 ? void 0 : _a.characters;
+    const ancestor = propertyName ? findComponentAncestor(textNode) : null;
+    if (!propertyName || !ancestor) {
+        return null;
+    }
+    const properties = ancestor.type === 'INSTANCE'
+        ? ancestor.componentProperties
+        : findPropertyOwner(ancestor).componentPropertyDefinitions;
+    return ((_c = (_b = properties[propertyName]) === null || _b === void 0 ? void 0 : _b.boundVariables) === null || _c === void 0 ? void 0 : _c.value) || null;
+}
+// Text showing a property value that is bound to a variable counts as bound
+function isBoundThroughProperty(textNode) {
+    return findPropertyBinding(textNode) !== null;
+}
+async function resolveBindingSite(textNode, mode) {
+    var _a, _b;
+    const ancestor = mode === 'properties' ? findComponentAncestor(textNode) : null;
+    if (!ancestor) {
+        return { target: 'text' };
+    }
+    const reference = (_a = textNode.componentPropertyReferences) === null || _a === void 0 ? void 0 : _a.characters;
+    if (ancestor.type === 'COMPONENT') {
+        const owner = findPropertyOwner(ancestor);
+        if (owner.remote) {
+            return { target: 'text' };
         }
-        console.log(`Built valid variable ID set with ${allValidVariableIds.size} variables from ${collections.length} collections`);
-        return allValidVariableIds;
+        const propertyName = reference && reference in owner.componentPropertyDefinitions ? reference : null;
+        return { target: 'component-property', owner, textNode, propertyName };
     }
-    catch (error) {
-        console.error('Error building valid variable ID set:', error);
-        return allValidVariableIds; // Return empty set on error
+    if (reference && reference in ancestor.componentProperties) {
+        return { target: 'instance-property', instance: ancestor, property: reference };
     }
+    // Instance sublayer ids end with the id of the matching layer in the main component
+    const mainComponent = await ancestor.getMainComponentAsync();
+    const mainText = mainComponent && !mainComponent.remote
+        ? await figma.getNodeByIdAsync(textNode.id.split(';').pop() || '')
+        : null;
+    // Library components can't take new properties, so those overrides are bound directly
+    if (!mainComponent || !mainText || mainText.type !== 'TEXT' || ((_b = mainText.boundVariables) === null || _b === void 0 ? void 0 : _b.characters) || findPropertyOwner(mainComponent).remote) {
+        return { target: 'text' };
+    }
+    return {
+        target: 'instance-property',
+        instance: ancestor,
+        property: { target: 'component-property', owner: findPropertyOwner(mainComponent), textNode: mainText, propertyName: null }
+    };
 }
-async function checkVariableConnection(textNode, allValidVariableIds) {
-    const binding = 'characters';
+function describeBindingSite(site) {
+    switch (site.target) {
+        case 'component-property':
+            return site.propertyName ? getPropertyLabel(site.propertyName) : site.textNode.name;
+        case 'instance-property':
+            return typeof site.property === 'string' ? getPropertyLabel(site.property) : site.property.textNode.name;
+        default:
+            return undefined;
+    }
+}
+function exposeTextProperty(site, journal) {
+    if (site.propertyName) {
+        return site.propertyName;
+    }
+    const { owner, textNode } = site;
+    const definitions = owner.componentPropertyDefinitions;
+    const names = Object.keys(definitions);
+    const label = textNode.name.trim() || 'Text';
+    // Variants repeat layers, and the ones showing the same text can share one property
+    const shared = names.find(name => definitions[name].type === 'TEXT' &&
+        getPropertyLabel(name) === label &&
+        definitions[name].defaultValue === textNode.characters);
+    const propertyName = shared || owner.addComponentProperty(createPropertyLabel(label, names), 'TEXT', textNode.characters);
+    textNode.componentPropertyReferences = Object.assign(Object.assign({}, textNode.componentPropertyReferences), { characters: propertyName });
+    site.propertyName = propertyName;
+    journal.exposedProperties.push({
+        ownerId: owner.id,
+        nodeId: textNode.id,
+        propertyName,
+        created: !shared
+    });
+    return propertyName;
+}
+async function bindTextToSite(textLayer, site, variable, journal, originalCharacters) {
+    if (site.target === 'text') {
+        bindTextNodeToVariable(textLayer, variable);
+        journal.boundNodes.push({
+            nodeId: textLayer.id,
+            variableId: variable.id,
+            originalCharacters
+        });
+        return;
+    }
     try {
-        // Pre-check: Only process layers that actually have bound variables
+        const alias = figma.variables.createVariableAlias(variable);
+        let ownerId;
+        let propertyName;
+        if (site.target === 'component-property') {
+            propertyName = exposeTextProperty(site, journal);
+            site.owner.editComponentProperty(propertyName, { defaultValue: alias });
+            ownerId = site.owner.id;
+        }
+        else {
+            propertyName = typeof site.property === 'string' ? site.property : exposeTextProperty(site.property, journal);
+            site.instance.setProperties({ [propertyName]: alias });
+            ownerId = site.instance.id;
+        }
+        journal.boundNodes.push({
+            nodeId: textLayer.id,
+            variableId: variable.id,
+            originalCharacters,
+            target: site.target,
+            ownerId,
+            propertyName
+        });
+    }
+    catch (error) {
+        console.error(`Error binding component property for text node ${textLayer.id} to variable ${variable.id}:`, error);
+        throw new PluginError('Failed to bind component property to variable', {
+            code: ERROR_CODES.BINDING_FAILED,
+            context: {
+                nodeId: textLayer.id,
+                nodeName: textLayer.name,
+                target: site.target,
+                variableId: variable.id,
+                variableName: variable.name,
+                originalError: error instanceof Error ? error.message : String(error)
+            }
+        });
+    }
+}
+async function restorePropertyBinding(entry) {
+    var _a, _b, _c, _d, _e, _f;
+    const owner = entry.ownerId ? await figma.getNodeByIdAsync(entry.ownerId) : null;
+    const propertyName = entry.propertyName || '';
+    if (!owner || owner.removed) {
+        throw new Error('Property owner no longer exists');
+    }
+    // Leave properties alone that have since been bound to something else
+    if (owner.type === 'INSTANCE') {
+        if (((_c = (_b = (_a = owner.componentProperties[propertyName]) === null || _a === void 0 ? void 0 : _a.boundVariables) === null || _b === void 0 ? void 0 : _b.value) === null || _c === void 0 ? void 0 : _c.id) !== entry.variableId) {
+            return false;
+        }
+        owner.setProperties({ [propertyName]: entry.originalCharacters });
+        return true;
+    }
+    if (owner.type === 'COMPONENT' || owner.type === 'COMPONENT_SET') {
+        if (((_f = (_e = (_d = owner.componentPropertyDefinitions[propertyName]) === null || _d === void 0 ? void 0 : _d.boundVariables) === null || _e === void 0 ? void 0 : _e.value) === null || _f === void 0 ? void 0 : _f.id) !== entry.variableId) {
+            return false;
+        }
+        owner.editComponentProperty(propertyName, { defaultValue: entry.originalCharacters });
+        return true;
+    }
+    throw new Error('Property owner is not a component or instance');
+}
+// ============================================================================
+// TYPOGRAPHY FUNCTIONS
+// ============================================================================
+function roundTypographyValue(value) {
+    return Math.round(value * 100) / 100;
+}
+// The value a field shows on the layer, in the units variables hold: pixels for
+// letter spacing and line height. Mixed and automatic values have nothing to bind.
+function readTypographyValue(textNode, field) {
+    const fontSize = textNode.fontSize === figma.mixed ? null : textNode.fontSize;
+    switch (field) {
+        case 'fontFamily':
+            return textNode.fontName === figma.mixed ? null : textNode.fontName.family;
+        case 'fontSize':
+            return fontSize;
+        case 'fontWeight':
+            return textNode.fontWeight === figma.mixed ? null : textNode.fontWeight;
+        case 'letterSpacing':
+        case 'lineHeight': {
+            const spacing = textNode[field];
+            if (spacing === figma.mixed || spacing.unit === 'AUTO')
+                return null;
+            if (spacing.unit === 'PIXELS')
+                return roundTypographyValue(spacing.value);
+            return fontSize === null ? null : roundTypographyValue(spacing.value * fontSize / 100);
+        }
+    }
+}
+function typographyValueKey(field, value) {
+    return `${field}:${value}`;
+}
+// Only variables scoped to a typography field are reused for it, so copy strings
+// and unrelated numbers that happen to share a value are left alone
+async function buildTypographyIndex(collectionId) {
+    const collection = await validateCollection(collectionId);
+    const index = {
+        variables: {
+            collection,
+            modeId: collection.defaultModeId,
+            byKey: new Map(),
+            names: new Set(),
+            conflictCounters: new Map()
+        },
+        byValue: new Map(),
+        boundStyleIds: new Set()
+    };
+    for (const variableId of collection.variableIds) {
+        try {
+            const variable = await figma.variables.getVariableByIdAsync(variableId);
+            if (!variable)
+                continue;
+            index.variables.names.add(variable.name);
+            const value = variable.valuesByMode[collection.defaultModeId];
+            for (const field of TYPOGRAPHY_FIELD_IDS) {
+                const { type, scope } = TYPOGRAPHY_FIELDS[field];
+                const key = typographyValueKey(field, value);
+                if (variable.resolvedType === type && variable.scopes.includes(scope) && !index.byValue.has(key)) {
+                    index.byValue.set(key, variable);
+                }
+            }
+        }
+        catch (error) {
+            console.warn(`Could not load variable ${variableId}:`, error);
+        }
+    }
+    return index;
+}
+// Styled text is named after its text style, other text after the role its size suggests
+function createTypographyVariableName(textNode, style, field, naming) {
+    const fontSize = readTypographyValue(textNode, 'fontSize');
+    const role = TYPOGRAPHY_ROLES.find(candidate => typeof fontSize === 'number' && fontSize >= candidate.minFontSize);
+    const group = style ? style.name.split('/') : [role ? role.role : 'text'];
+    return ['typography', ...group, TYPOGRAPHY_FIELDS[field].label]
+        .map(part => sanitizeName(part, naming.casing, naming))
+        .filter(Boolean)
+        .join('/');
+}
+function createTypographyVariable(index, variableName, field, value) {
+    const { type, scope } = TYPOGRAPHY_FIELDS[field];
+    const collection = index.variables.collection;
+    try {
+        const variable = figma.variables.createVariable(claimVariableName(index.variables, variableName), collection, type);
+        variable.scopes = [scope];
+        for (const mode of collection.modes) {
+            variable.setValueForMode(mode.modeId, value);
+        }
+        index.byValue.set(typographyValueKey(field, value), variable);
+        return variable;
+    }
+    catch (error) {
+        console.error(`Error creating typography variable "${variableName}":`, error);
+        throw new PluginError(`Failed to create variable: ${variableName}`, {
+            code: ERROR_CODES.VARIABLE_CREATION_FAILED,
+            context: { variableName, field, value, originalError: error instanceof Error ? error.message : String(error) }
+        });
+    }
+}
+// Text using a local text style is bound through the style, so the layer stays attached
+// to it; library styles cannot be edited from here and are left alone
+async function resolveTypographyTarget(textNode) {
+    if (textNode.textStyleId === figma.mixed) {
+        return null;
+    }
+    const style = textNode.textStyleId ? await figma.getStyleByIdAsync(textNode.textStyleId) : null;
+    if (!style || style.type !== 'TEXT') {
+        return { target: textNode, style: null };
+    }
+    return style.remote ? null : { target: style, style };
+}
+function readTypographyBinding(target, field) {
+    var _a, _b;
+    // Layers hold a list of aliases per text field, styles a single one
+    const alias = (_a = target.boundVariables) === null || _a === void 0 ? void 0 : _a[field];
+    return Array.isArray(alias) ? (_b = alias[0]) === null || _b === void 0 ? void 0 : _b.id : alias === null || alias === void 0 ? void 0 : alias.id;
+}
+// Runs after the layer's text is bound, so failures are collected per field for the
+// layer's outcome instead of thrown: the text binding stands either way
+async function bindTypography(textNode, index, journal, settings) {
+    const result = { bound: 0, errors: [] };
+    let site;
+    try {
+        site = await resolveTypographyTarget(textNode);
+        if (!site) {
+            return result;
+        }
+        // A style is bound once per run, however many layers use it
+        if (site.style) {
+            if (index.boundStyleIds.has(site.style.id))
+                return result;
+            index.boundStyleIds.add(site.style.id);
+            await figma.loadFontAsync(site.style.fontName);
+        }
+        else {
+            await loadFontsForTextNode(textNode);
+        }
+    }
+    catch (error) {
+        console.error(`Error preparing typography for ${textNode.id}:`, error);
+        result.errors.push(`Could not prepare typography: ${error instanceof Error ? error.message : String(error)}`);
+        return result;
+    }
+    for (const field of TYPOGRAPHY_FIELD_IDS) {
+        const value = readTypographyValue(textNode, field);
+        if (value === null || readTypographyBinding(site.target, field))
+            continue;
+        try {
+            let variable = index.byValue.get(typographyValueKey(field, value));
+            if (!variable) {
+                variable = createTypographyVariable(index, createTypographyVariableName(textNode, site.style, field, settings.naming), field, value);
+                journal.createdVariableIds.push(variable.id);
+            }
+            site.target.setBoundVariable(field, variable);
+            journal.typographyBindings.push({ targetId: site.target.id, isStyle: site.style !== null, field, variableId: variable.id });
+            result.bound++;
+        }
+        catch (error) {
+            console.error(`Error binding ${field} of ${textNode.id}:`, error);
+            result.errors.push(`Failed to bind ${TYPOGRAPHY_FIELDS[field].label}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    return result;
+}
+// ============================================================================
+// DRY-RUN PLANNING FUNCTIONS
+// ============================================================================
+async function buildProcessingPlan(textLayers, collectionId, settings, modeId) {
+    const variableIndex = await buildVariableIndex(collectionId, modeId);
+    const dedupIndex = settings.dedup.enabled
+        ? createDedupIndex(textLayers, variableIndex, settings)
+        : null;
+    // Mirrors processTextLayer without touching the document: keys of variables
+    // the run would create stand in for the ones it would add to the index
+    const plannedKeys = new Set();
+    const plannedByContent = new Map();
+    const rows = [];
+    for (const textLayer of textLayers) {
+        const row = {
+            nodeId: textLayer.id,
+            nodeName: textLayer.name,
+            content: textLayer.characters.trim(),
+            variableName: '',
+            action: 'skip'
+        };
+        rows.push(row);
+        const skipReason = getTextLayerSkipReason(textLayer, settings.rules, settings.traversal);
+        if (skipReason || !row.content) {
+            row.skipReason = skipReason || 'no-letters';
+            continue;
+        }
+        const { variableName, placeholders } = preprocessTextForVariable(textLayer.characters, textLayer, settings);
+        const key = variableIndexKey(variableName, row.content);
+        row.variableName = variableName;
+        row.template = placeholders === null || placeholders === void 0 ? void 0 : placeholders.template;
+        if (hasMixedStyles(textLayer)) {
+            row.mixedStyles = true;
+            // Skipped rows stay as they are; split layers are named per segment when applied
+            if (settings.mixedStyles === 'skip')
+                continue;
+            if (settings.mixedStyles === 'split') {
+                row.action = 'split';
+                continue;
+            }
+        }
+        const site = await resolveBindingSite(textLayer, settings.componentText);
+        row.target = site.target;
+        row.propertyName = describeBindingSite(site);
+        if (dedupIndex) {
+            const contentKey = normalizeContentKey(row.content, settings.dedup);
+            const existing = dedupIndex.variablesByContent.get(contentKey);
+            const planned = plannedByContent.get(contentKey);
+            if (existing || planned) {
+                row.action = 'connect';
+                row.variableName = existing ? existing.name : planned || variableName;
+                row.variableId = existing === null || existing === void 0 ? void 0 : existing.id;
+                continue;
+            }
+            row.variableName = claimVariableName(variableIndex, dedupIndex.namesByContent.get(contentKey) || variableName);
+            row.action = 'create';
+            plannedByContent.set(contentKey, row.variableName);
+            continue;
+        }
+        if (plannedKeys.has(key)) {
+            row.action = 'connect';
+            continue;
+        }
+        const existing = findIndexedVariable(variableIndex, variableName, row.content);
+        if (existing) {
+            row.action = 'connect';
+            row.variableId = existing.id;
+            continue;
+        }
+        row.variableName = claimVariableName(variableIndex, variableName);
+        row.action = 'create';
+        plannedKeys.add(variableIndexKey(row.variableName, row.content));
+    }
+    return rows;
+}
+// Edited names are checked against the collection up front: a run creates under the
+// exact name it is given, and the API refuses a name the collection already holds
+async function resolvePlanSelection(rows, collectionId, modeId, settings = activeSettings) {
+    const textLayers = [];
+    const nameOverrides = new Map();
+    for (const row of rows) {
+        const variableName = row.variableName.trim();
+        if (!variableName) {
+            continue;
+        }
+        const node = await figma.getNodeByIdAsync(row.nodeId);
+        if (node && node.type === 'TEXT' && !node.removed) {
+            textLayers.push(node);
+            nameOverrides.set(node.id, variableName);
+        }
+    }
+    // Dedup runs resolve name conflicts themselves
+    if (!settings.dedup.enabled) {
+        const variableIndex = await buildVariableIndex(collectionId, modeId);
+        const taken = findTakenPlanNames(textLayers, nameOverrides, variableIndex, settings);
+        if (taken.length > 0) {
+            throw new PluginError(`${taken.length === 1 ? 'This name is' : 'These names are'} already taken in the collection: ${taken.join(', ')}. Rename ${taken.length === 1 ? 'it' : 'them'} in the preview and apply again.`, { code: ERROR_CODES.VARIABLE_NAME_TAKEN, context: { names: taken } });
+        }
+    }
+    return { textLayers, nameOverrides };
+}
+// Names a run would have to create a variable under although another variable, or
+// another plan row with different text, already holds them
+function findTakenPlanNames(textLayers, nameOverrides, variableIndex, settings) {
+    const contentByName = new Map();
+    const taken = [];
+    for (const textLayer of textLayers) {
+        const variableName = nameOverrides.get(textLayer.id);
+        if (!variableName || getTextLayerSkipReason(textLayer, settings.rules, settings.traversal))
+            continue;
+        // Split layers are named per segment, not after the row
+        if (hasMixedStyles(textLayer) && settings.mixedStyles !== 'flatten')
+            continue;
+        const content = preprocessTextForVariable(textLayer.characters, textLayer, settings).processed;
+        if (!content || findIndexedVariable(variableIndex, variableName, content))
+            continue;
+        const claimed = contentByName.get(variableName);
+        const isTaken = claimed === undefined ? variableIndex.names.has(variableName) : claimed !== content;
+        if (!isTaken) {
+            contentByName.set(variableName, content);
+        }
+        else if (!taken.includes(variableName)) {
+            taken.push(variableName);
+        }
+    }
+    return taken;
+}
+// ============================================================================
+// PLACEHOLDER FUNCTIONS
+// ============================================================================
+function detectPlaceholders(text) {
+    const spans = [];
+    for (const { type, source, flags, group } of PLACEHOLDER_PATTERNS) {
+        const pattern = new RegExp(source, flags);
+        let match;
+        while ((match = pattern.exec(text)) !== null) {
+            const sample = group ? match[group] : match[0];
+            if (type === 'name' && NON_NAME_WORDS.has(sample))
+                continue;
+            const start = match.index + match[0].lastIndexOf(sample);
+            const end = start + sample.length;
+            if (!spans.some(span => start < span.end && end > span.start)) {
+                spans.push({ start, end, type });
+            }
+        }
+    }
+    if (spans.length === 0) {
+        return null;
+    }
+    spans.sort((a, b) => a.start - b.start);
+    // Repeated types are numbered in reading order: {count}, {count2}, ...
+    const nameCounts = new Map();
+    const placeholders = [];
+    let template = '';
+    let cursor = 0;
+    for (const span of spans) {
+        const base = PLACEHOLDER_NAMES[span.type];
+        const count = (nameCounts.get(base) || 0) + 1;
+        nameCounts.set(base, count);
+        const name = count === 1 ? base : `${base}${count}`;
+        placeholders.push({ name, type: span.type, sample: text.slice(span.start, span.end) });
+        template += `${text.slice(cursor, span.start)}{${name}}`;
+        cursor = span.end;
+    }
+    return { text, template: template + text.slice(cursor), placeholders };
+}
+function readPlaceholderMetadata(variable) {
+    const raw = variable.getPluginData(PLUGIN_DATA_KEYS.PLACEHOLDERS);
+    if (!raw) {
+        return null;
+    }
+    try {
+        const metadata = JSON.parse(raw);
+        return typeof metadata.template === 'string' && Array.isArray(metadata.placeholders) ? metadata : null;
+    }
+    catch (error) {
+        console.warn(`Ignoring unreadable placeholder data on ${variable.name}:`, error);
+        return null;
+    }
+}
+function writePlaceholderMetadata(variable, metadata) {
+    if (metadata && !variable.getPluginData(PLUGIN_DATA_KEYS.PLACEHOLDERS)) {
+        variable.setPluginData(PLUGIN_DATA_KEYS.PLACEHOLDERS, JSON.stringify(metadata));
+    }
+}
+function applyPlaceholderTemplate(value, metadata) {
+    if (value === metadata.text) {
+        return metadata.template;
+    }
+    // Translations keep the sample values, possibly reordered, inside their own wording
+    const parts = [value];
+    for (const placeholder of metadata.placeholders) {
+        const index = parts.findIndex(part => typeof part === 'string' && part.includes(placeholder.sample));
+        if (index === -1)
+            continue;
+        const part = parts[index];
+        const at = part.indexOf(placeholder.sample);
+        parts.splice(index, 1, part.slice(0, at), placeholder, part.slice(at + placeholder.sample.length));
+    }
+    return parts.map(part => typeof part === 'string' ? part : `{${part.name}}`).join('');
+}
+function parsePluralMessage(value) {
+    const match = PLURAL_MESSAGE.exec(value.trim());
+    if (!match) {
+        return null;
+    }
+    // Branch bodies can hold nested placeholders, so braces are counted rather than matched
+    const body = match[2];
+    const branches = {};
+    let cursor = 0;
+    while (cursor < body.length) {
+        const selector = /^\s*(=?\w+)\s*\{/.exec(body.slice(cursor));
+        if (!selector)
+            break;
+        const start = cursor + selector[0].length;
+        let end = start;
+        let depth = 1;
+        while (end < body.length && depth > 0) {
+            if (body[end] === '{')
+                depth++;
+            if (body[end] === '}')
+                depth--;
+            end++;
+        }
+        if (depth > 0)
+            return null;
+        branches[selector[1]] = body.slice(start, end - 1);
+        cursor = end;
+    }
+    return branches.other === undefined ? null : { name: match[1], branches };
+}
+function fillPlaceholderSamples(value, metadata) {
+    let filled = value;
+    const plural = parsePluralMessage(value);
+    if (plural) {
+        const count = metadata.placeholders.find(placeholder => placeholder.name === plural.name);
+        const exact = count ? plural.branches[`=${count.sample}`] : undefined;
+        const branch = exact !== undefined ? exact : count && count.sample === '1' && plural.branches.one !== undefined ? plural.branches.one : plural.branches.other;
+        filled = count ? branch.split('#').join(count.sample) : branch;
+    }
+    return metadata.placeholders.reduce((result, placeholder) => result.split(`{${placeholder.name}}`).join(placeholder.sample), filled);
+}
+function buildPluralMessage(count, one, other) {
+    const toBranch = (template) => template.split(`{${count}}`).join('#');
+    return `{${count}, plural, one {${toBranch(one)}} other {${toBranch(other)}}}`;
+}
+function isPluralOf(singular, plural) {
+    const one = singular.toLowerCase();
+    const other = plural.toLowerCase();
+    return other === `${one}s` || other === `${one}es` || (one.endsWith('y') && other === `${one.slice(0, -1)}ies`);
+}
+function isPluralVariant(oneTemplate, otherTemplate) {
+    const oneWords = oneTemplate.split(/\b/);
+    const otherWords = otherTemplate.split(/\b/);
+    if (oneWords.length !== otherWords.length) {
+        return false;
+    }
+    // Equal templates are separate strings ("Page {count}"), not plural forms
+    let differs = false;
+    for (let i = 0; i < oneWords.length; i++) {
+        if (oneWords[i] === otherWords[i])
+            continue;
+        if (!isPluralOf(oneWords[i], otherWords[i]))
+            return false;
+        differs = true;
+    }
+    return differs;
+}
+function findPluralPairs(items) {
+    const ones = [];
+    const others = [];
+    // Only strings counting exactly one thing can be told apart by their count
+    for (const item of items) {
+        const numbers = item.placeholders ? item.placeholders.placeholders.filter(placeholder => placeholder.type === 'number') : [];
+        if (!item.placeholders || numbers.length !== 1)
+            continue;
+        const candidate = { name: item.name, template: item.placeholders.template, count: numbers[0].name };
+        (numbers[0].sample === '1' ? ones : others).push(candidate);
+    }
+    const pairs = [];
+    const paired = new Set();
+    for (const one of ones) {
+        const other = others.find(candidate => !paired.has(candidate.name) && candidate.count === one.count && isPluralVariant(one.template, candidate.template));
+        if (other) {
+            paired.add(other.name);
+            pairs.push({ one: one.name, other: other.name, count: one.count });
+        }
+    }
+    return pairs;
+}
+function applyPlaceholderTemplates(strings) {
+    const pairs = findPluralPairs(strings.entries);
+    const pairsByOther = new Map(pairs.map(pair => [pair.other, pair]));
+    const mergedNames = new Set(pairs.map(pair => pair.one));
+    const entriesByName = new Map(strings.entries.map(entry => [entry.name, entry]));
+    const toTemplate = (entry, value) => entry.placeholders ? applyPlaceholderTemplate(value, entry.placeholders) : value;
+    // A plural pair exports once, under the name of its "other" variant
+    const entries = strings.entries
+        .filter(entry => !mergedNames.has(entry.name))
+        .map(entry => {
+        const pair = pairsByOther.get(entry.name);
+        const one = pair ? entriesByName.get(pair.one) : undefined;
+        const valuesByMode = {};
+        for (const modeId of Object.keys(entry.valuesByMode)) {
+            const other = toTemplate(entry, entry.valuesByMode[modeId]);
+            const singular = one && one.valuesByMode[modeId] !== undefined ? toTemplate(one, one.valuesByMode[modeId]) : undefined;
+            valuesByMode[modeId] = pair && singular !== undefined ? buildPluralMessage(pair.count, singular, other) : other;
+        }
+        return Object.assign(Object.assign({}, entry), { valuesByMode });
+    });
+    return Object.assign(Object.assign({}, strings), { entries });
+}
+// ============================================================================
+// EXPORT FUNCTIONS
+// ============================================================================
+async function resolveStringValue(value, modeId, depth = 0) {
+    if (typeof value === 'string') {
+        return value;
+    }
+    if (depth >= MAX_ALIAS_DEPTH || !value || typeof value !== 'object' || !('type' in value) || value.type !== 'VARIABLE_ALIAS') {
+        return null;
+    }
+    const target = await figma.variables.getVariableByIdAsync(value.id);
+    if (!target) {
+        return null;
+    }
+    // Aliases into another collection resolve through that collection's default mode
+    let targetValue = target.valuesByMode[modeId];
+    if (targetValue === undefined) {
+        const targetCollection = await figma.variables.getVariableCollectionByIdAsync(target.variableCollectionId);
+        targetValue = targetCollection ? target.valuesByMode[targetCollection.defaultModeId] : undefined;
+    }
+    return targetValue === undefined ? null : resolveStringValue(targetValue, modeId, depth + 1);
+}
+async function readCollectionStrings(collectionId) {
+    const collection = await validateCollection(collectionId);
+    const entries = [];
+    for (const variableId of collection.variableIds) {
+        const variable = await figma.variables.getVariableByIdAsync(variableId);
+        if (!variable || variable.resolvedType !== 'STRING') {
+            continue;
+        }
+        const valuesByMode = {};
+        for (const mode of collection.modes) {
+            const value = variable.valuesByMode[mode.modeId];
+            const resolved = value === undefined ? null : await resolveStringValue(value, mode.modeId);
+            if (resolved !== null) {
+                valuesByMode[mode.modeId] = resolved;
+            }
+        }
+        entries.push({ name: variable.name, valuesByMode, placeholders: readPlaceholderMetadata(variable) || undefined });
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    return {
+        collectionName: collection.name,
+        defaultModeId: collection.defaultModeId,
+        modes: collection.modes.map(mode => ({ modeId: mode.modeId, name: mode.name })),
+        entries
+    };
+}
+function splitVariablePath(name) {
+    return name.split('/').map(segment => segment.trim()).filter(segment => segment.length > 0);
+}
+function toFileSlug(name) {
+    return sanitizeName(name, 'kebab', ASCII_NAME_OPTIONS) || 'strings';
+}
+function toAndroidResourceName(name) {
+    const resourceName = splitVariablePath(name).map(segment => sanitizeName(segment, 'snake', ASCII_NAME_OPTIONS)).filter(Boolean).join('__');
+    // Resource names must start with a letter
+    return /^[a-z]/.test(resourceName) ? resourceName : `s_${resourceName}`;
+}
+function escapeAndroidString(value) {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/'/g, "\\'")
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, '\\n')
+        .replace(/^([@?])/, '\\$1');
+}
+function escapeQuotedString(value) {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, '\\n')
+        .replace(/\t/g, '\\t');
+}
+function buildNestedJson(entries, modeId) {
+    const root = {};
+    for (const entry of entries) {
+        const value = entry.valuesByMode[modeId];
+        if (value === undefined)
+            continue;
+        const segments = splitVariablePath(entry.name);
+        let target = root;
+        for (let i = 0; i < segments.length - 1; i++) {
+            const existing = target[segments[i]];
+            if (typeof existing === 'string') {
+                // A leaf already sits where a group is needed: keep the rest of the path as one key
+                target[segments.slice(i).join('/')] = value;
+                target = {};
+                break;
+            }
+            if (!existing) {
+                target[segments[i]] = {};
+            }
+            target = target[segments[i]];
+        }
+        const leaf = segments[segments.length - 1];
+        if (leaf && typeof target[leaf] !== 'object') {
+            target[leaf] = value;
+        }
+        else if (leaf) {
+            // A group already uses this name: keep the leaf under an empty key inside it
+            target[leaf][''] = value;
+        }
+    }
+    return root;
+}
+function buildFlatJson(entries, modeId) {
+    const result = {};
+    for (const entry of entries) {
+        const value = entry.valuesByMode[modeId];
+        if (value !== undefined) {
+            result[splitVariablePath(entry.name).join('.')] = value;
+        }
+    }
+    return result;
+}
+function buildAndroidStrings(entries, modeId) {
+    const lines = ['<?xml version="1.0" encoding="utf-8"?>', '<resources>'];
+    for (const entry of entries) {
+        const value = entry.valuesByMode[modeId];
+        if (value !== undefined) {
+            lines.push(`    <string name="${toAndroidResourceName(entry.name)}">${escapeAndroidString(value)}</string>`);
+        }
+    }
+    lines.push('</resources>', '');
+    return lines.join('\n');
+}
+function buildIosStrings(entries, modeId) {
+    const lines = [];
+    for (const entry of entries) {
+        const value = entry.valuesByMode[modeId];
+        if (value !== undefined) {
+            lines.push(`"${escapeQuotedString(splitVariablePath(entry.name).join('.'))}" = "${escapeQuotedString(value)}";`);
+        }
+    }
+    return lines.join('\n') + '\n';
+}
+function buildXcstrings(strings) {
+    var _a;
+    const sourceLanguage = ((_a = strings.modes.find(mode => mode.modeId === strings.defaultModeId)) === null || _a === void 0 ? void 0 : _a.name) || 'en';
+    const catalog = {};
+    for (const entry of strings.entries) {
+        const localizations = {};
+        for (const mode of strings.modes) {
+            const value = entry.valuesByMode[mode.modeId];
+            if (value !== undefined) {
+                localizations[mode.name] = { stringUnit: { state: 'translated', value } };
+            }
+        }
+        catalog[splitVariablePath(entry.name).join('.')] = { localizations };
+    }
+    return JSON.stringify({ sourceLanguage, strings: catalog, version: '1.0' }, null, 2);
+}
+function buildPo(entries, modeId, defaultModeId, language) {
+    const lines = [
+        'msgid ""',
+        'msgstr ""',
+        `"Language: ${escapeQuotedString(language)}\\n"`,
+        '"MIME-Version: 1.0\\n"',
+        '"Content-Type: text/plain; charset=UTF-8\\n"',
+        '"Content-Transfer-Encoding: 8bit\\n"',
+        ''
+    ];
+    for (const entry of entries) {
+        const source = entry.valuesByMode[defaultModeId];
+        if (source === undefined)
+            continue;
+        // The variable name is the context so identical source strings stay separate
+        const translation = entry.valuesByMode[modeId];
+        lines.push(`msgctxt "${escapeQuotedString(entry.name)}"`, `msgid "${escapeQuotedString(source)}"`, `msgstr "${translation === undefined ? '' : escapeQuotedString(translation)}"`, '');
+    }
+    return lines.join('\n');
+}
+function buildExportFiles(strings, format) {
+    const baseName = toFileSlug(strings.collectionName);
+    if (format === 'xcstrings') {
+        return [{
+                filename: `${baseName}.xcstrings`,
+                mimeType: 'application/json',
+                content: buildXcstrings(strings)
+            }];
+    }
+    // Every other format holds a single locale, so each mode gets its own file
+    return strings.modes.map(mode => {
+        const locale = toFileSlug(mode.name);
+        switch (format) {
+            case 'i18next':
+                return {
+                    filename: `${baseName}.${locale}.json`,
+                    mimeType: 'application/json',
+                    content: JSON.stringify(buildNestedJson(strings.entries, mode.modeId), null, 2)
+                };
+            case 'flat-json':
+                return {
+                    filename: `${baseName}.${locale}.flat.json`,
+                    mimeType: 'application/json',
+                    content: JSON.stringify(buildFlatJson(strings.entries, mode.modeId), null, 2)
+                };
+            case 'android':
+                return {
+                    filename: `strings-${locale}.xml`,
+                    mimeType: 'application/xml',
+                    content: buildAndroidStrings(strings.entries, mode.modeId)
+                };
+            case 'ios-strings':
+                return {
+                    filename: `Localizable-${locale}.strings`,
+                    mimeType: 'text/plain',
+                    content: buildIosStrings(strings.entries, mode.modeId)
+                };
+            default:
+                return {
+                    filename: `${baseName}.${locale}.po`,
+                    mimeType: 'text/x-gettext-translation',
+                    content: buildPo(strings.entries, mode.modeId, strings.defaultModeId, mode.name)
+                };
+        }
+    });
+}
+// ============================================================================
+// IMPORT FUNCTIONS
+// ============================================================================
+function detectImportFormat(filename) {
+    var _a;
+    const extension = ((_a = filename.split('.').pop()) === null || _a === void 0 ? void 0 : _a.toLowerCase()) || '';
+    return IMPORT_FILE_EXTENSIONS[extension] || null;
+}
+// Dotted, slashed and nested keys all collapse to the same lookup key
+function normalizeImportKey(key) {
+    return key.split(/[./]/).map(segment => segment.trim()).filter(segment => segment.length > 0).join('.');
+}
+function normalizeLocale(locale) {
+    return locale.trim().toLowerCase().replace(/_/g, '-');
+}
+function unescapeQuotedString(value) {
+    return value.replace(/\\(u[0-9a-fA-F]{4}|U[0-9a-fA-F]{4}|.)/g, (_match, escaped) => {
+        switch (escaped[0]) {
+            case 'n': return '\n';
+            case 't': return '\t';
+            case 'r': return '\r';
+            case 'u':
+            case 'U':
+                return escaped.length === 5 ? String.fromCharCode(parseInt(escaped.slice(1), 16)) : escaped;
+            default: return escaped;
+        }
+    });
+}
+function decodeXmlEntity(entity) {
+    var _a;
+    const named = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+    const lower = entity.toLowerCase();
+    if (lower.startsWith('#x')) {
+        return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    }
+    if (lower.startsWith('#')) {
+        return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    }
+    return (_a = named[lower]) !== null && _a !== void 0 ? _a : `&${entity};`;
+}
+function decodeXmlText(value) {
+    return value
+        .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+        .map(part => {
+        if (part.startsWith('<![CDATA[')) {
+            return part.slice(9, -3);
+        }
+        // Inline markup such as <g> or <ph> is dropped, keeping only its text
+        return part
+            .replace(/<[^>]*>/g, '')
+            .replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_match, entity) => decodeXmlEntity(entity));
+    })
+        .join('');
+}
+function readXmlAttribute(tag, name) {
+    var _a;
+    if (!tag)
+        return null;
+    const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`));
+    return match ? decodeXmlText((_a = match[1]) !== null && _a !== void 0 ? _a : match[2]) : null;
+}
+function flattenJsonStrings(value, path, values) {
+    if (typeof value === 'string') {
+        values.set(path.join('.'), value);
+        return;
+    }
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+        for (const [key, child] of Object.entries(value)) {
+            // Exports keep a leaf that collides with a group under an empty key
+            flattenJsonStrings(child, key === '' ? path : [...path, key], values);
+        }
+    }
+}
+function parseJsonTranslations(content) {
+    const values = new Map();
+    flattenJsonStrings(JSON.parse(content), [], values);
+    return values;
+}
+function parseXcstrings(content, filename) {
+    var _a;
+    const catalog = JSON.parse(content);
+    const byLocale = new Map();
+    for (const [key, entry] of Object.entries(catalog.strings || {})) {
+        for (const [locale, localization] of Object.entries((entry === null || entry === void 0 ? void 0 : entry.localizations) || {})) {
+            const value = (_a = localization === null || localization === void 0 ? void 0 : localization.stringUnit) === null || _a === void 0 ? void 0 : _a.value;
+            if (typeof value !== 'string')
+                continue;
+            let translations = byLocale.get(locale);
+            if (!translations) {
+                translations = { filename, locale, values: new Map() };
+                byLocale.set(locale, translations);
+            }
+            translations.values.set(key, value);
+        }
+    }
+    return Array.from(byLocale.values());
+}
+function parseXliff(content) {
+    var _a, _b;
+    const values = new Map();
+    const locale = readXmlAttribute((_a = content.match(/<file\b[^>]*>/)) === null || _a === void 0 ? void 0 : _a[0], 'target-language')
+        || readXmlAttribute((_b = content.match(/<xliff\b[^>]*>/)) === null || _b === void 0 ? void 0 : _b[0], 'trgLang');
+    // XLIFF 1.2 uses <trans-unit>, XLIFF 2.0 uses <unit> with one or more segments
+    const unitPattern = /<(trans-unit|unit)\b([^>]*)>([\s\S]*?)<\/\1>/g;
+    let unit;
+    while ((unit = unitPattern.exec(content)) !== null) {
+        const key = readXmlAttribute(unit[2], 'resname') || readXmlAttribute(unit[2], 'id');
+        if (!key)
+            continue;
+        const targetPattern = /<target\b[^>]*>([\s\S]*?)<\/target>/g;
+        const targets = [];
+        let target;
+        while ((target = targetPattern.exec(unit[3])) !== null) {
+            targets.push(decodeXmlText(target[1]));
+        }
+        const value = targets.join('');
+        if (value) {
+            values.set(key, value);
+        }
+    }
+    return { locale, values };
+}
+function parsePo(content) {
+    const values = new Map();
+    let locale = null;
+    let entry = {};
+    let field = null;
+    let fuzzy = false;
+    const flush = () => {
+        var _a, _b, _c;
+        if (entry.msgid === '' && entry.msgctxt === undefined) {
+            locale = ((_b = (_a = entry.msgstr) === null || _a === void 0 ? void 0 : _a.match(/^Language:\s*(.+)$/m)) === null || _b === void 0 ? void 0 : _b[1].trim()) || null;
+        }
+        else if (entry.msgid !== undefined && entry.msgstr && !fuzzy) {
+            // Without a context the source string is the key
+            values.set((_c = entry.msgctxt) !== null && _c !== void 0 ? _c : entry.msgid, entry.msgstr);
+        }
+        entry = {};
+        field = null;
+        fuzzy = false;
+    };
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (line === '') {
+            flush();
+            continue;
+        }
+        if (line.startsWith('#')) {
+            if (line.startsWith('#,') && line.includes('fuzzy'))
+                fuzzy = true;
+            continue;
+        }
+        const keyword = line.match(/^(msgctxt|msgid|msgid_plural|msgstr(?:\[(\d+)\])?)\s+"(.*)"$/);
+        if (keyword) {
+            // Plural forms other than the first are not representable as a single variable value
+            field = keyword[2] === undefined ? keyword[1] : keyword[2] === '0' ? 'msgstr' : null;
+            if (field)
+                entry[field] = unescapeQuotedString(keyword[3]);
+            continue;
+        }
+        const continuation = line.match(/^"(.*)"$/);
+        if (continuation && field) {
+            entry[field] += unescapeQuotedString(continuation[1]);
+        }
+    }
+    flush();
+    return { locale, values };
+}
+function parseIosStrings(content) {
+    const values = new Map();
+    const withoutComments = content
+        .replace(/\/\*[\s\S]*?\*\//g, '')
+        .replace(/^\s*\/\/.*$/gm, '');
+    const pairPattern = /"((?:[^"\\]|\\.)*)"\s*=\s*"((?:[^"\\]|\\.)*)"\s*;/g;
+    let pair;
+    while ((pair = pairPattern.exec(withoutComments)) !== null) {
+        values.set(unescapeQuotedString(pair[1]), unescapeQuotedString(pair[2]));
+    }
+    return values;
+}
+function detectLocaleFromFilename(filename, modes) {
+    const baseName = filename.replace(/\.[^.]+$/, '').replace(/\.flat$/i, '').toLowerCase();
+    // Prefer the mode slugs written by the exporter
+    for (const mode of modes) {
+        const slug = toFileSlug(mode.name);
+        if (baseName === slug || baseName.endsWith(`.${slug}`) || baseName.endsWith(`-${slug}`)) {
+            return mode.name;
+        }
+    }
+    // Otherwise only a trailing two-letter language code, optionally with a region, counts
+    const match = baseName.match(/(?:^|[._-])([a-z]{2}(?:[-_][a-z0-9]{2,8})?)$/);
+    return match ? match[1] : null;
+}
+function findModeForLocale(locale, modes) {
+    const normalized = normalizeLocale(locale);
+    return modes.find(mode => normalizeLocale(mode.name) === normalized || toFileSlug(mode.name) === toFileSlug(locale)) || null;
+}
+function parseImportFile(file, modes, localeOverride) {
+    const format = detectImportFormat(file.filename);
+    if (!format) {
+        throw new PluginError(`Unsupported file type: ${file.filename}`, { code: ERROR_CODES.IMPORT_FAILED });
+    }
+    // String catalogs carry every locale, so they ignore the locale override
+    if (format === 'xcstrings') {
+        return parseXcstrings(file.content, file.filename);
+    }
+    let fileLocale = null;
+    let values;
+    switch (format) {
+        case 'json':
+            values = parseJsonTranslations(file.content);
+            break;
+        case 'xliff':
+            ({ locale: fileLocale, values } = parseXliff(file.content));
+            break;
+        case 'po':
+            ({ locale: fileLocale, values } = parsePo(file.content));
+            break;
+        default:
+            values = parseIosStrings(file.content);
+    }
+    const locale = (localeOverride === null || localeOverride === void 0 ? void 0 : localeOverride.trim()) || fileLocale || detectLocaleFromFilename(file.filename, modes);
+    return [{ filename: file.filename, locale, values }];
+}
+async function buildImportDiff(collectionId, files, localeOverride) {
+    const collection = await validateCollection(collectionId);
+    const modes = collection.modes.map(mode => ({ modeId: mode.modeId, name: mode.name }));
+    const errors = [];
+    // Files for the same locale are merged, later files winning
+    const groups = new Map();
+    for (const file of files) {
+        let parsed;
+        try {
+            parsed = parseImportFile(file, modes, localeOverride);
+        }
+        catch (error) {
+            errors.push(`${file.filename}: ${error instanceof Error ? error.message : String(error)}`);
+            continue;
+        }
+        for (const translations of parsed) {
+            if (!translations.locale) {
+                errors.push(`${translations.filename}: could not detect a locale, enter one and preview again`);
+                continue;
+            }
+            if (translations.values.size === 0) {
+                errors.push(`${translations.filename}: no translations found`);
+                continue;
+            }
+            const mode = findModeForLocale(translations.locale, modes);
+            const groupKey = mode ? mode.modeId : normalizeLocale(translations.locale);
+            const group = groups.get(groupKey) || { locale: translations.locale, mode, values: new Map() };
+            translations.values.forEach((value, key) => group.values.set(key, value));
+            groups.set(groupKey, group);
+        }
+    }
+    if (groups.size === 0) {
+        throw new PluginError(errors.length > 0 ? errors.join('; ') : 'No translations found in the selected files', {
+            code: ERROR_CODES.IMPORT_FAILED,
+            context: { collectionId }
+        });
+    }
+    const variables = [];
+    for (const variableId of collection.variableIds) {
+        const variable = await figma.variables.getVariableByIdAsync(variableId);
+        if (variable && variable.resolvedType === 'STRING') {
+            variables.push(variable);
+        }
+    }
+    // Keys match variable names first, then the default-mode source text,
+    // which exports may have written with placeholders
+    const byKey = new Map();
+    const bySource = new Map();
+    const placeholdersById = new Map();
+    for (const variable of variables) {
+        byKey.set(normalizeImportKey(variable.name), variable);
+        const placeholders = readPlaceholderMetadata(variable);
+        if (placeholders) {
+            placeholdersById.set(variable.id, placeholders);
+        }
+        const defaultValue = variable.valuesByMode[collection.defaultModeId];
+        const source = defaultValue === undefined ? null : await resolveStringValue(defaultValue, collection.defaultModeId);
+        const sources = source && placeholders ? [source, applyPlaceholderTemplate(source, placeholders)] : source ? [source] : [];
+        for (const text of sources) {
+            bySource.set(text, [...(bySource.get(text) || []), variable]);
+        }
+    }
+    // A plural message exported under one variable also fills its singular partner
+    const pluralPartners = new Map();
+    for (const pair of findPluralPairs(variables.map(variable => ({ name: variable.name, placeholders: placeholdersById.get(variable.id) })))) {
+        const one = variables.find(variable => variable.name === pair.one);
+        if (one)
+            pluralPartners.set(pair.other, one);
+    }
+    const locales = [];
+    for (const group of groups.values()) {
+        const diff = {
+            locale: group.locale,
+            modeId: group.mode ? group.mode.modeId : null,
+            modeName: group.mode ? group.mode.name : group.locale,
+            added: [],
+            changed: [],
+            unchangedCount: 0,
+            missing: [],
+            orphaned: []
+        };
+        const matchedIds = new Set();
+        for (const [key, value] of group.values) {
+            const byName = byKey.get(normalizeImportKey(key));
+            const partner = byName ? pluralPartners.get(byName.name) : undefined;
+            const targets = byName ? (partner ? [byName, partner] : [byName]) : bySource.get(key) || [];
+            if (targets.length === 0) {
+                diff.orphaned.push(key);
+                continue;
+            }
+            for (const variable of targets) {
+                matchedIds.add(variable.id);
+                // The design keeps showing sample data, so placeholders are filled back in
+                const placeholders = placeholdersById.get(variable.id);
+                const targetValue = placeholders ? fillPlaceholderSamples(value, placeholders) : value;
+                const current = group.mode ? variable.valuesByMode[group.mode.modeId] : undefined;
+                const previousValue = group.mode && current !== undefined ? await resolveStringValue(current, group.mode.modeId) : null;
+                const change = { key, variableId: variable.id, variableName: variable.name, previousValue, value: targetValue };
+                if (previousValue === null || previousValue === '') {
+                    diff.added.push(change);
+                }
+                else if (previousValue !== targetValue) {
+                    diff.changed.push(change);
+                }
+                else {
+                    diff.unchangedCount++;
+                }
+            }
+        }
+        diff.missing = variables.filter(variable => !matchedIds.has(variable.id)).map(variable => variable.name).sort();
+        locales.push(diff);
+    }
+    return { collectionId, locales, errors };
+}
+async function applyImportDiff(diff) {
+    const collection = await validateCollection(diff.collectionId);
+    const result = { modesCreated: [], valuesSet: 0, failed: 0 };
+    for (const locale of diff.locales) {
+        let modeId = locale.modeId;
+        if (!modeId) {
+            try {
+                modeId = collection.addMode(locale.modeName);
+                result.modesCreated.push(locale.modeName);
+            }
+            catch (error) {
+                throw new PluginError(`Could not add mode "${locale.modeName}": ${error instanceof Error ? error.message : String(error)}`, {
+                    code: ERROR_CODES.IMPORT_FAILED,
+                    context: { collectionId: diff.collectionId, locale: locale.locale }
+                });
+            }
+        }
+        for (const change of [...locale.added, ...locale.changed]) {
+            try {
+                const variable = await figma.variables.getVariableByIdAsync(change.variableId);
+                if (!variable) {
+                    result.failed++;
+                    continue;
+                }
+                variable.setValueForMode(modeId, change.value);
+                result.valuesSet++;
+            }
+            catch (error) {
+                console.warn(`Failed to import value for ${change.variableName}:`, error);
+                result.failed++;
+            }
+        }
+    }
+    return result;
+}
+// ============================================================================
+// GHOST VARIABLE DETECTION FUNCTIONS
+// ============================================================================
+async function scanForGhostVariables(pageIds, collectionId) {
+    try {
+        // Phase 1: Build Set of all valid variable IDs from all collections
+        const allValidVariableIds = await buildValidVariableIdSet();
+        // Ghostbuster always scans whole pages, not selection-aware: the current one or the picked ones
+        const pages = pageIds && pageIds.length > 0 ? await loadScanPages(pageIds) : [figma.currentPage];
+        const allTextNodes = collectTextNodes(pages);
+        // Filter for visible text nodes (additional validation)
+        const visibleTextNodes = allTextNodes.filter(node => activeSettings.traversal.includeHidden || !isHiddenInTree(node));
+        const ghosts = [];
+        let variableIndex = null;
+        for (const textNode of visibleTextNodes) {
+            // Apply the same text rules as Stringify
+            if (getTextSkipReason(textNode.characters, textNode.name, activeSettings.rules)) {
+                continue;
+            }
+            const ghostInfo = await checkVariableConnection(textNode, allValidVariableIds);
+            if (ghostInfo) {
+                if (pages.length > 1) {
+                    ghostInfo.pageName = findPageName(textNode);
+                }
+                // Only built once a ghost turns up, since it loads every variable in the file
+                variableIndex = variableIndex || await buildGhostVariableIndex();
+                ghostInfo.match = await findGhostMatch(textNode, variableIndex, collectionId);
+                ghosts.push(ghostInfo);
+            }
+        }
+        return ghosts;
+    }
+    catch (error) {
+        console.error('Error scanning for ghost variables:', error);
+        throw new PluginError('Failed to scan for ghost variables');
+    }
+}
+async function buildValidVariableIdSet() {
+    const allValidVariableIds = new Set();
+    try {
+        // Get all variable collections in the file
+        const collections = await figma.variables.getLocalVariableCollectionsAsync();
+        // Build Set of all valid variable IDs
+        for (const collection of collections) {
+            collection.variableIds.forEach(id => {
+                allValidVariableIds.add(id);
+            });
+        }
+        return allValidVariableIds;
+    }
+    catch (error) {
+        console.error('Error building valid variable ID set:', error);
+        return allValidVariableIds; // Return empty set on error
+    }
+}
+async function checkVariableConnection(textNode, allValidVariableIds) {
+    const binding = 'characters';
+    try {
+        // Pre-check: Only process layers that actually have bound variables
         if (!textNode.boundVariables || !textNode.boundVariables[binding]) {
             return null; // No connection - not a ghost
         }
-        const boundVariable = textNode.getBoundVariable(binding);
-        // No bound variable reference - not a ghost
-        if (!boundVariable) {
-            return null;
+        const boundVariable = textNode.getBoundVariable(binding);
+        // No bound variable reference - not a ghost
+        if (!boundVariable) {
+            return null;
+        }
+        // Check if the bound variable ID exists in our valid set
+        if (!allValidVariableIds.has(boundVariable.id)) {
+            // Ghost variable - binding exists but variable ID not in any collection
+            return {
+                nodeId: textNode.id,
+                nodeName: textNode.name,
+                textContent: textNode.characters,
+                bindingType: binding,
+                ghostVariableId: boundVariable.id
+            };
+        }
+        // Variable ID exists in collections - it's a valid connection
+        return null;
+    }
+    catch (error) {
+        // getBoundVariable() threw an error - likely a ghost or corrupted binding
+        console.warn(`Error checking variable connection for node ${textNode.id}:`, error);
+        return {
+            nodeId: textNode.id,
+            nodeName: textNode.name,
+            textContent: textNode.characters,
+            bindingType: binding,
+            ghostVariableId: 'error'
+        };
+    }
+}
+async function clearGhostVariables(ghostIds) {
+    const result = {
+        totalAttempted: ghostIds.length,
+        successfullyCleared: 0,
+        failed: 0,
+        errors: []
+    };
+    for (const nodeId of ghostIds) {
+        try {
+            const node = await figma.getNodeByIdAsync(nodeId);
+            if (!node) {
+                throw new Error('Node no longer exists');
+            }
+            if (node.type !== 'TEXT') {
+                throw new Error('Node is no longer a text layer');
+            }
+            if (node.removed) {
+                throw new Error('Node has been removed from the document');
+            }
+            // Find and clear all ghost bindings for this node
+            const bindings = ['characters'];
+            let clearedAny = false;
+            for (const binding of bindings) {
+                try {
+                    const boundVariable = node.getBoundVariable(binding);
+                    if (boundVariable) {
+                        // Check if this is actually a ghost (variable doesn't exist)
+                        const variable = await figma.variables.getVariableByIdAsync(boundVariable.id);
+                        if (!variable) {
+                            // Clear the ghost binding
+                            node.setBoundVariable(binding, null);
+                            clearedAny = true;
+                        }
+                    }
+                }
+                catch (error) {
+                    // Binding exists but variable is inaccessible - clear it
+                    node.setBoundVariable(binding, null);
+                    clearedAny = true;
+                }
+            }
+            if (clearedAny) {
+                result.successfullyCleared++;
+            }
+            else {
+                result.failed++;
+                result.errors.push({
+                    nodeId,
+                    nodeName: node.name,
+                    error: 'No ghost bindings found to clear',
+                    bindingType: 'unknown'
+                });
+            }
+        }
+        catch (error) {
+            result.failed++;
+            result.errors.push({
+                nodeId,
+                nodeName: 'unknown',
+                error: error instanceof Error ? error.message : 'Unknown error',
+                bindingType: 'unknown'
+            });
+            console.error(`Failed to clear ghost variable ${nodeId}:`, error);
+        }
+    }
+    return result;
+}
+async function buildGhostVariableIndex() {
+    const index = {
+        byContent: new Map(),
+        byName: new Map(),
+        collectionNames: new Map()
+    };
+    for (const collection of await figma.variables.getLocalVariableCollectionsAsync()) {
+        index.collectionNames.set(collection.id, collection.name);
+        for (const variableId of collection.variableIds) {
+            const variable = await figma.variables.getVariableByIdAsync(variableId);
+            if (!variable || variable.resolvedType !== 'STRING')
+                continue;
+            // The first variable seen keeps a name or value, matching any of its modes
+            if (!index.byName.has(variable.name)) {
+                index.byName.set(variable.name, variable);
+            }
+            for (const value of Object.values(variable.valuesByMode)) {
+                if (typeof value === 'string' && value.trim() && !index.byContent.has(value.trim())) {
+                    index.byContent.set(value.trim(), variable);
+                }
+            }
+        }
+    }
+    return index;
+}
+// Same text wins over the same name; without either, a replacement goes into the chosen collection
+async function findGhostMatch(textNode, index, collectionId) {
+    const text = textNode.characters.trim();
+    const describe = async (kind, variable) => {
+        const collection = await figma.variables.getVariableCollectionByIdAsync(variable.variableCollectionId);
+        const value = collection ? variable.valuesByMode[collection.defaultModeId] : undefined;
+        return {
+            kind,
+            variableId: variable.id,
+            variableName: variable.name,
+            collectionId: variable.variableCollectionId,
+            collectionName: index.collectionNames.get(variable.variableCollectionId) || '',
+            value: typeof value === 'string' ? value : ''
+        };
+    };
+    const byContent = index.byContent.get(text);
+    if (byContent) {
+        return describe('content', byContent);
+    }
+    const names = [
+        createHierarchicalVariableName(text, textNode, activeSettings.naming),
+        createVariableName(text, textNode, activeSettings)
+    ];
+    const byName = names.map(name => index.byName.get(name)).find(variable => variable !== undefined);
+    if (byName) {
+        return describe('name', byName);
+    }
+    if (!collectionId || !index.collectionNames.has(collectionId)) {
+        return null;
+    }
+    return {
+        kind: 'create',
+        variableName: names[1],
+        collectionId,
+        collectionName: index.collectionNames.get(collectionId) || '',
+        value: text
+    };
+}
+async function repairGhostVariables(ghostIds, collectionId) {
+    var _a, _b;
+    const result = { rebound: 0, created: 0, failed: 0 };
+    const validVariableIds = await buildValidVariableIdSet();
+    const index = await buildGhostVariableIndex();
+    const variableIndexes = new Map();
+    // A repair becomes the last run, so Revert Last Run can undo a bad bulk repair
+    const journal = createRunJournal();
+    for (const nodeId of ghostIds) {
+        try {
+            const node = await figma.getNodeByIdAsync(nodeId);
+            if (!node || node.type !== 'TEXT' || node.removed) {
+                throw new Error('Node no longer exists');
+            }
+            // Matched again rather than trusted from the scan, in case variables changed since
+            if (!await checkVariableConnection(node, validVariableIds)) {
+                throw new Error('Node no longer has a ghost binding');
+            }
+            const match = await findGhostMatch(node, index, collectionId);
+            if (!match) {
+                throw new Error('No matching variable and no collection for a replacement');
+            }
+            let variable = match.variableId ? await figma.variables.getVariableByIdAsync(match.variableId) : null;
+            if (!variable) {
+                const variableIndex = await getPassVariableIndex(variableIndexes, match.collectionId);
+                variable = createIndexedVariable(variableIndex, match.variableName, match.value, true, activeSettings);
+                journal.createdVariableIds.push(variable.id);
+                // Later ghosts with the same text rebind to this replacement instead of creating another
+                index.byContent.set(match.value, variable);
+                index.byName.set(variable.name, variable);
+                result.created++;
+            }
+            else {
+                result.rebound++;
+            }
+            const ghostId = (_b = (_a = node.boundVariables) === null || _a === void 0 ? void 0 : _a.characters) === null || _b === void 0 ? void 0 : _b.id;
+            const originalCharacters = node.characters;
+            node.setBoundVariable('characters', null);
+            bindTextNodeToVariable(node, variable);
+            journal.boundNodes.push({ nodeId: node.id, variableId: variable.id, originalCharacters, previousVariableId: ghostId });
+            noteJournalCollection(journal, variable.variableCollectionId);
+        }
+        catch (error) {
+            result.failed++;
+            console.error(`Failed to repair ghost variable on node ${nodeId}:`, error);
         }
-        // Check if the bound variable ID exists in our valid set
-        if (!allValidVariableIds.has(boundVariable.id)) {
-            // Ghost variable - binding exists but variable ID not in any collection
-            return {
+    }
+    // Only a repair that changed something replaces the stored run
+    if (!isEmptyRunJournal(journal)) {
+        saveRunJournal(journal);
+    }
+    return result;
+}
+// ============================================================================
+// AUDIT FUNCTIONS
+// ============================================================================
+// Groups by the top-level layer on the page, which is the frame reviewers hand off
+function findTopLevelFrame(node) {
+    let current = node;
+    while (current.parent && current.parent.type !== 'PAGE' && current.parent.type !== 'DOCUMENT') {
+        current = current.parent;
+    }
+    return current === node ? null : current;
+}
+async function checkBoundText(textNode, alias, validVariableIds, collectionId) {
+    var _a;
+    const issue = {
+        nodeId: textNode.id,
+        nodeName: textNode.name,
+        characters: textNode.characters.slice(0, 80)
+    };
+    // Characters bindings go through the Ghostbuster check, property bindings only have their alias
+    const isGhost = ((_a = textNode.boundVariables) === null || _a === void 0 ? void 0 : _a.characters)
+        ? await checkVariableConnection(textNode, validVariableIds) !== null
+        : !validVariableIds.has(alias.id);
+    const variable = isGhost ? null : await figma.variables.getVariableByIdAsync(alias.id);
+    if (!variable) {
+        return Object.assign(Object.assign({}, issue), { kind: 'ghost' });
+    }
+    if (collectionId && variable.variableCollectionId !== collectionId) {
+        const collection = await figma.variables.getVariableCollectionByIdAsync(variable.variableCollectionId);
+        return Object.assign(Object.assign({}, issue), { kind: 'foreign-collection', variableName: variable.name, collectionName: collection === null || collection === void 0 ? void 0 : collection.name });
+    }
+    const displayed = await resolveDisplayedValue(textNode, variable);
+    if (displayed && displayed.value.trim() !== textNode.characters.trim()) {
+        return Object.assign(Object.assign({}, issue), { kind: 'stale-value', variableName: variable.name, variableValue: displayed.value.slice(0, 80) });
+    }
+    return null;
+}
+// Read-only: reports text in the scan scope without binding, clearing or renaming anything
+async function buildAuditReport(collectionId, pageIds) {
+    var _a;
+    const { scope } = await resolveScan(pageIds);
+    const validVariableIds = await buildValidVariableIdSet();
+    const collection = collectionId ? await figma.variables.getVariableCollectionByIdAsync(collectionId) : null;
+    const report = {
+        scopeDescription: scope.description,
+        collectionName: collection ? collection.name : null,
+        textCount: 0,
+        boundCount: 0,
+        coverage: 0,
+        counts: { unbound: 0, ghost: 0, 'foreign-collection': 0, 'stale-value': 0 },
+        groups: [],
+        truncated: false
+    };
+    const groups = new Map();
+    let reported = 0;
+    for (const textNode of findScannedTextNodes(scope)) {
+        const skipReason = getTextLayerSkipReason(textNode);
+        // Bound layers still answer to the traversal and content rules, so coverage counts the same copy a run would
+        if (skipReason !== null && (skipReason !== 'bound' || getTraversalSkipReason(textNode) ||
+            getTextSkipReason(textNode.characters, textNode.name, activeSettings.rules))) {
+            continue;
+        }
+        const alias = skipReason === 'bound' ? ((_a = textNode.boundVariables) === null || _a === void 0 ? void 0 : _a.characters) || findPropertyBinding(textNode) : null;
+        const issue = alias
+            ? await checkBoundText(textNode, alias, validVariableIds, collectionId)
+            : { nodeId: textNode.id, nodeName: textNode.name, characters: textNode.characters.slice(0, 80), kind: 'unbound' };
+        const frame = findTopLevelFrame(textNode);
+        const pageName = findPageName(textNode);
+        const key = `${pageName}:${frame ? frame.id : ''}`;
+        let group = groups.get(key);
+        if (!group) {
+            group = { pageName, frameId: frame ? frame.id : null, frameName: frame ? frame.name : '', textCount: 0, boundCount: 0, issues: [] };
+            groups.set(key, group);
+        }
+        const covered = issue === null || (issue.kind !== 'unbound' && issue.kind !== 'ghost');
+        report.textCount++;
+        group.textCount++;
+        if (covered) {
+            report.boundCount++;
+            group.boundCount++;
+        }
+        if (issue) {
+            report.counts[issue.kind]++;
+            if (reported < MAX_REPORTED_AUDIT_ISSUES) {
+                group.issues.push(issue);
+                reported++;
+            }
+            else {
+                report.truncated = true;
+            }
+        }
+    }
+    report.groups = Array.from(groups.values());
+    report.coverage = report.textCount > 0 ? Math.round((report.boundCount / report.textCount) * 1000) / 10 : 100;
+    return report;
+}
+// ============================================================================
+// DRIFT FUNCTIONS
+// ============================================================================
+// The layer shows whichever mode its frame resolves for the variable's collection
+async function resolveDisplayedValue(textNode, variable) {
+    const modeId = textNode.resolvedVariableModes[variable.variableCollectionId];
+    if (!modeId || variable.valuesByMode[modeId] === undefined) {
+        return null;
+    }
+    const value = await resolveStringValue(variable.valuesByMode[modeId], modeId);
+    return value === null ? null : { modeId, value };
+}
+async function findDrift(textNode) {
+    var _a;
+    const alias = (_a = textNode.boundVariables) === null || _a === void 0 ? void 0 : _a.characters;
+    const variable = alias ? await figma.variables.getVariableByIdAsync(alias.id) : null;
+    const displayed = variable ? await resolveDisplayedValue(textNode, variable) : null;
+    // Missing variables are ghosts, which Ghostbuster handles
+    if (!variable || !displayed || displayed.value === textNode.characters) {
+        return null;
+    }
+    return Object.assign({ variable }, displayed);
+}
+async function scanForDrift(pageIds) {
+    // Same page scope as the ghost scan: the current page or the picked ones
+    const pages = pageIds && pageIds.length > 0 ? await loadScanPages(pageIds) : [figma.currentPage];
+    const boundNodes = collectTextNodes(pages).filter(node => { var _a; return Boolean((_a = node.boundVariables) === null || _a === void 0 ? void 0 : _a.characters); });
+    const modeNames = new Map();
+    const rows = [];
+    for (let i = 0; i < boundNodes.length; i += activeSettings.batchSize) {
+        for (const textNode of boundNodes.slice(i, i + activeSettings.batchSize)) {
+            if (!activeSettings.traversal.includeHidden && isHiddenInTree(textNode))
+                continue;
+            const drift = await findDrift(textNode);
+            if (!drift)
+                continue;
+            const modeKey = `${drift.variable.variableCollectionId}:${drift.modeId}`;
+            if (!modeNames.has(modeKey)) {
+                const collection = await figma.variables.getVariableCollectionByIdAsync(drift.variable.variableCollectionId);
+                const mode = collection === null || collection === void 0 ? void 0 : collection.modes.find(candidate => candidate.modeId === drift.modeId);
+                modeNames.set(modeKey, mode ? mode.name : '');
+            }
+            rows.push({
                 nodeId: textNode.id,
                 nodeName: textNode.name,
-                textContent: textNode.characters,
-                bindingType: binding,
-                ghostVariableId: boundVariable.id
-            };
+                characters: textNode.characters,
+                variableId: drift.variable.id,
+                variableName: drift.variable.name,
+                modeId: drift.modeId,
+                modeName: modeNames.get(modeKey) || '',
+                variableValue: drift.value,
+                pageName: pages.length > 1 ? findPageName(textNode) : undefined
+            });
         }
-        // Variable ID exists in collections - it's a valid connection
+        await reportDriftProgress('scan', i, boundNodes.length);
+    }
+    return rows;
+}
+async function reportDriftProgress(phase, batchStart, total) {
+    const processed = Math.min(batchStart + activeSettings.batchSize, total);
+    sendMessage({
+        type: 'drift-progress',
+        phase,
+        progress: Math.round((processed / total) * 100),
+        remaining: total - processed
+    });
+    await new Promise(resolve => setTimeout(resolve, activeSettings.progressUpdateDelay));
+}
+async function applyDriftFix(textNode, fix, result, variableIndexes, journal) {
+    // Rechecked rather than trusted from the scan, since either side may have changed since
+    const drift = await findDrift(textNode);
+    if (!drift) {
+        result.unchanged++;
+        return;
+    }
+    switch (fix) {
+        case 'update-variable':
+            journal.updatedValues.push({
+                variableId: drift.variable.id,
+                modeId: drift.modeId,
+                previousValue: drift.variable.valuesByMode[drift.modeId],
+                value: textNode.characters
+            });
+            drift.variable.setValueForMode(drift.modeId, textNode.characters);
+            noteJournalCollection(journal, drift.variable.variableCollectionId);
+            result.updated++;
+            break;
+        case 'reset-node':
+            // Rebinding makes the layer pick up the variable's value again
+            await loadFontsForTextNode(textNode);
+            textNode.setBoundVariable('characters', null);
+            bindTextNodeToVariable(textNode, drift.variable);
+            result.reset++;
+            break;
+        case 'fork-variable': {
+            const variableIndex = await getPassVariableIndex(variableIndexes, drift.variable.variableCollectionId, drift.modeId);
+            const fork = createIndexedVariable(variableIndex, drift.variable.name, textNode.characters, true, activeSettings);
+            journal.createdVariableIds.push(fork.id);
+            bindTextNodeToVariable(textNode, fork);
+            journal.boundNodes.push({
+                nodeId: textNode.id,
+                variableId: fork.id,
+                originalCharacters: textNode.characters,
+                previousVariableId: drift.variable.id
+            });
+            noteJournalCollection(journal, drift.variable.variableCollectionId);
+            result.forked++;
+            break;
+        }
+    }
+}
+async function fixDrift(rows) {
+    const result = { updated: 0, reset: 0, forked: 0, unchanged: 0, failed: 0 };
+    const variableIndexes = new Map();
+    // Updates and forks become the last run, so Revert Last Run undoes them; resets are not journaled
+    const journal = createRunJournal();
+    for (let i = 0; i < rows.length; i += activeSettings.batchSize) {
+        for (const row of rows.slice(i, i + activeSettings.batchSize)) {
+            try {
+                const node = await figma.getNodeByIdAsync(row.nodeId);
+                if (!node || node.type !== 'TEXT' || node.removed) {
+                    throw new Error('Node no longer exists');
+                }
+                await applyDriftFix(node, row.fix, result, variableIndexes, journal);
+            }
+            catch (error) {
+                result.failed++;
+                console.error(`Failed to fix drift on node ${row.nodeId}:`, error);
+            }
+        }
+        // Only a pass that changed something replaces the stored run
+        if (!isEmptyRunJournal(journal)) {
+            saveRunJournal(journal);
+        }
+        await reportDriftProgress('fix', i, rows.length);
+    }
+    return result;
+}
+// ============================================================================
+// SETTINGS FUNCTIONS
+// ============================================================================
+function readNumberSetting(value, key, errors) {
+    if (value === undefined)
+        return undefined;
+    const { min, max } = SETTINGS_LIMITS[key];
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+        errors.push(`${key} must be a whole number between ${min} and ${max}`);
+        return undefined;
+    }
+    return value;
+}
+function readBooleanSetting(value, key, errors) {
+    if (value === undefined)
+        return undefined;
+    if (typeof value !== 'boolean') {
+        errors.push(`${key} must be true or false`);
+        return undefined;
+    }
+    return value;
+}
+function readStringListSetting(value, key, errors) {
+    if (value === undefined)
+        return undefined;
+    const { max } = SETTINGS_LIMITS.ruleListLength;
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string') || value.length > max) {
+        errors.push(`${key} must be a list of at most ${max} strings`);
+        return undefined;
+    }
+    return value.map(item => item.trim()).filter(item => item.length > 0);
+}
+function isValidRulePattern(source) {
+    try {
+        getRulePattern(source);
+        return true;
+    }
+    catch (error) {
+        return false;
+    }
+}
+function readEnumSetting(value, key, allowed, errors) {
+    if (value === undefined)
+        return undefined;
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+        errors.push(`${key} must be one of: ${allowed.join(', ')}`);
+        return undefined;
+    }
+    return value;
+}
+function validateSettingsOverrides(input) {
+    const errors = [];
+    const overrides = {};
+    if (!input || typeof input !== 'object') {
+        return { overrides, errors };
+    }
+    const raw = input;
+    const batchSize = readNumberSetting(raw.batchSize, 'batchSize', errors);
+    if (batchSize !== undefined)
+        overrides.batchSize = batchSize;
+    const maxVariableNameLength = readNumberSetting(raw.maxVariableNameLength, 'maxVariableNameLength', errors);
+    if (maxVariableNameLength !== undefined)
+        overrides.maxVariableNameLength = maxVariableNameLength;
+    const progressUpdateDelay = readNumberSetting(raw.progressUpdateDelay, 'progressUpdateDelay', errors);
+    if (progressUpdateDelay !== undefined)
+        overrides.progressUpdateDelay = progressUpdateDelay;
+    if (raw.defaultCollectionName !== undefined) {
+        const { min, max } = SETTINGS_LIMITS.defaultCollectionName;
+        const name = typeof raw.defaultCollectionName === 'string' ? raw.defaultCollectionName.trim() : '';
+        if (name.length < min || name.length > max) {
+            errors.push(`defaultCollectionName must be between ${min} and ${max} characters`);
+        }
+        else {
+            overrides.defaultCollectionName = name;
+        }
+    }
+    const mixedStyles = readEnumSetting(raw.mixedStyles, 'mixedStyles', MIXED_STYLE_POLICIES, errors);
+    if (mixedStyles)
+        overrides.mixedStyles = mixedStyles;
+    const componentText = readEnumSetting(raw.componentText, 'componentText', COMPONENT_TEXT_MODES, errors);
+    if (componentText)
+        overrides.componentText = componentText;
+    const detectPlaceholders = readBooleanSetting(raw.detectPlaceholders, 'detectPlaceholders', errors);
+    if (detectPlaceholders !== undefined)
+        overrides.detectPlaceholders = detectPlaceholders;
+    const modeFill = readEnumSetting(raw.modeFill, 'modeFill', MODE_FILL_POLICIES, errors);
+    if (modeFill)
+        overrides.modeFill = modeFill;
+    if (raw.modePlaceholder !== undefined) {
+        const { min, max } = SETTINGS_LIMITS.modePlaceholder;
+        const placeholder = typeof raw.modePlaceholder === 'string' ? raw.modePlaceholder.trim() : '';
+        if (placeholder.length < min || placeholder.length > max) {
+            errors.push(`modePlaceholder must be between ${min} and ${max} characters`);
+        }
+        else {
+            overrides.modePlaceholder = placeholder;
+        }
+    }
+    if (raw.naming && typeof raw.naming === 'object') {
+        const rawNaming = raw.naming;
+        const naming = {};
+        const strategy = readEnumSetting(rawNaming.strategy, 'naming.strategy', NAMING_STRATEGIES, errors);
+        if (strategy)
+            naming.strategy = strategy;
+        const casing = readEnumSetting(rawNaming.casing, 'naming.casing', NAMING_CASINGS, errors);
+        if (casing)
+            naming.casing = casing;
+        const variants = readEnumSetting(rawNaming.variants, 'naming.variants', VARIANT_NAMINGS, errors);
+        if (variants)
+            naming.variants = variants;
+        const characters = readEnumSetting(rawNaming.characters, 'naming.characters', NAME_CHARACTER_SETS, errors);
+        if (characters)
+            naming.characters = characters;
+        const transliterate = readBooleanSetting(rawNaming.transliterate, 'naming.transliterate', errors);
+        if (transliterate !== undefined)
+            naming.transliterate = transliterate;
+        if (rawNaming.transliterations !== undefined) {
+            const table = rawNaming.transliterations;
+            const { max } = SETTINGS_LIMITS['naming.transliterations'];
+            const entries = table && typeof table === 'object' && !Array.isArray(table) ? Object.entries(table) : null;
+            if (!entries || entries.length > max || entries.some(([from, to]) => !from || typeof to !== 'string')) {
+                errors.push(`naming.transliterations must map at most ${max} characters or words to text`);
+            }
+            else {
+                naming.transliterations = table;
+            }
+        }
+        if (rawNaming.template !== undefined) {
+            const template = typeof rawNaming.template === 'string' ? rawNaming.template.trim() : '';
+            if (!template.match(NAMING_TEMPLATE_TOKEN)) {
+                errors.push('naming.template must contain at least one token such as {layer}');
+            }
+            else {
+                naming.template = template;
+            }
+        }
+        if (Object.keys(naming).length > 0) {
+            overrides.naming = naming;
+        }
+    }
+    if (raw.dedup && typeof raw.dedup === 'object') {
+        const rawDedup = raw.dedup;
+        const dedup = {};
+        for (const key of ['enabled', 'trim', 'ignoreCase', 'collapseWhitespace', 'ignorePunctuation']) {
+            const value = readBooleanSetting(rawDedup[key], `dedup.${key}`, errors);
+            if (value !== undefined)
+                dedup[key] = value;
+        }
+        const nameWinner = readEnumSetting(rawDedup.nameWinner, 'dedup.nameWinner', DEDUP_NAME_WINNERS, errors);
+        if (nameWinner)
+            dedup.nameWinner = nameWinner;
+        if (Object.keys(dedup).length > 0) {
+            overrides.dedup = dedup;
+        }
+    }
+    if (raw.rules && typeof raw.rules === 'object') {
+        const rawRules = raw.rules;
+        const rules = {};
+        if (rawRules.scripts !== undefined) {
+            const scripts = rawRules.scripts;
+            if (!Array.isArray(scripts) || scripts.some(script => !TEXT_SCRIPT_IDS.includes(script))) {
+                errors.push(`rules.scripts must only contain: ${TEXT_SCRIPT_IDS.join(', ')}`);
+            }
+            else {
+                rules.scripts = scripts;
+            }
+        }
+        const minLength = readNumberSetting(rawRules.minLength, 'rules.minLength', errors);
+        if (minLength !== undefined)
+            rules.minLength = minLength;
+        for (const key of ['include', 'exclude']) {
+            const patterns = readStringListSetting(rawRules[key], `rules.${key}`, errors);
+            const invalid = patterns ? patterns.filter(pattern => !isValidRulePattern(pattern)) : [];
+            if (invalid.length > 0) {
+                errors.push(`rules.${key} has invalid patterns: ${invalid.join(', ')}`);
+            }
+            else if (patterns) {
+                rules[key] = patterns;
+            }
+        }
+        const ignoredPrefixes = readStringListSetting(rawRules.ignoredPrefixes, 'rules.ignoredPrefixes', errors);
+        if (ignoredPrefixes)
+            rules.ignoredPrefixes = ignoredPrefixes;
+        for (const key of ['skipNumericOnly', 'skipLoremIpsum']) {
+            const value = readBooleanSetting(rawRules[key], `rules.${key}`, errors);
+            if (value !== undefined)
+                rules[key] = value;
+        }
+        if (Object.keys(rules).length > 0) {
+            overrides.rules = rules;
+        }
+    }
+    if (raw.traversal && typeof raw.traversal === 'object') {
+        const rawTraversal = raw.traversal;
+        const traversal = {};
+        const maxDepth = readNumberSetting(rawTraversal.maxDepth, 'traversal.maxDepth', errors);
+        if (maxDepth !== undefined)
+            traversal.maxDepth = maxDepth;
+        if (rawTraversal.descendInto !== undefined) {
+            const types = rawTraversal.descendInto;
+            if (!Array.isArray(types) || types.some(type => !TRAVERSABLE_TYPES.includes(type))) {
+                errors.push(`traversal.descendInto must only contain: ${TRAVERSABLE_TYPES.join(', ')}`);
+            }
+            else {
+                traversal.descendInto = types;
+            }
+        }
+        for (const key of ['include', 'exclude']) {
+            const patterns = readStringListSetting(rawTraversal[key], `traversal.${key}`, errors);
+            const invalid = patterns ? patterns.filter(pattern => !isValidRulePattern(pattern)) : [];
+            if (invalid.length > 0) {
+                errors.push(`traversal.${key} has invalid patterns: ${invalid.join(', ')}`);
+            }
+            else if (patterns) {
+                traversal[key] = patterns;
+            }
+        }
+        for (const key of ['includeHidden', 'includeLocked']) {
+            const value = readBooleanSetting(rawTraversal[key], `traversal.${key}`, errors);
+            if (value !== undefined)
+                traversal[key] = value;
+        }
+        if (Object.keys(traversal).length > 0) {
+            overrides.traversal = traversal;
+        }
+    }
+    return { overrides, errors };
+}
+function mergeSettings(base, overrides) {
+    return Object.assign(Object.assign(Object.assign({}, base), overrides), { naming: Object.assign(Object.assign({}, base.naming), overrides.naming), dedup: Object.assign(Object.assign({}, base.dedup), overrides.dedup), rules: Object.assign(Object.assign({}, base.rules), overrides.rules), traversal: Object.assign(Object.assign({}, base.traversal), overrides.traversal) });
+}
+async function readSettingsOverrides(scope) {
+    try {
+        const stored = scope === 'user'
+            ? await figma.clientStorage.getAsync(CLIENT_STORAGE_KEYS.SETTINGS)
+            : JSON.parse(figma.root.getPluginData(PLUGIN_DATA_KEYS.SETTINGS) || '{}');
+        // Drop anything stored by an older version that no longer validates
+        const { overrides, errors } = validateSettingsOverrides(stored);
+        if (errors.length > 0) {
+            console.warn(`Ignoring invalid ${scope} settings:`, errors);
+        }
+        return overrides;
+    }
+    catch (error) {
+        console.warn(`Could not read ${scope} settings:`, error);
+        return {};
+    }
+}
+async function writeSettingsOverrides(scope, overrides) {
+    if (scope === 'user') {
+        await figma.clientStorage.setAsync(CLIENT_STORAGE_KEYS.SETTINGS, overrides);
+    }
+    else {
+        figma.root.setPluginData(PLUGIN_DATA_KEYS.SETTINGS, JSON.stringify(overrides));
+    }
+}
+async function loadSettingsState() {
+    const user = await readSettingsOverrides('user');
+    const document = await readSettingsOverrides('document');
+    // Per-file overrides win over per-user defaults
+    return {
+        effective: mergeSettings(mergeSettings(DEFAULT_SETTINGS, user), document),
+        defaults: DEFAULT_SETTINGS,
+        user,
+        document
+    };
+}
+async function saveSettings(scope, input) {
+    const { overrides, errors } = validateSettingsOverrides(input);
+    if (errors.length > 0) {
+        throw new PluginError(`Invalid settings: ${errors.join('; ')}`, {
+            code: ERROR_CODES.INVALID_SETTINGS,
+            context: { scope, errors }
+        });
+    }
+    await writeSettingsOverrides(scope, overrides);
+}
+async function resetSettings(scope) {
+    if (scope === 'user') {
+        await figma.clientStorage.deleteAsync(CLIENT_STORAGE_KEYS.SETTINGS);
+    }
+    else {
+        figma.root.setPluginData(PLUGIN_DATA_KEYS.SETTINGS, '');
+    }
+}
+// ============================================================================
+// RUN JOURNAL FUNCTIONS
+// ============================================================================
+function createRunJournal(collectionId) {
+    return {
+        collectionIds: collectionId ? [collectionId] : [],
+        startedAt: Date.now(),
+        createdVariableIds: [],
+        boundNodes: [],
+        splitNodes: [],
+        exposedProperties: [],
+        typographyBindings: [],
+        updatedValues: []
+    };
+}
+function noteJournalCollection(journal, collectionId) {
+    if (!journal.collectionIds.includes(collectionId)) {
+        journal.collectionIds.push(collectionId);
+    }
+}
+function saveRunJournal(journal) {
+    clearRunJournal();
+    const serialized = JSON.stringify(journal);
+    let chunkCount = 0;
+    for (let i = 0; i < serialized.length; i += RUN_JOURNAL_CHUNK_SIZE) {
+        figma.root.setPluginData(`${PLUGIN_DATA_KEYS.RUN_JOURNAL}:${chunkCount}`, serialized.slice(i, i + RUN_JOURNAL_CHUNK_SIZE));
+        chunkCount++;
+    }
+    figma.root.setPluginData(PLUGIN_DATA_KEYS.RUN_JOURNAL, String(chunkCount));
+}
+function isEmptyRunJournal(journal) {
+    return journal.createdVariableIds.length === 0 && journal.boundNodes.length === 0 && journal.splitNodes.length === 0 &&
+        journal.exposedProperties.length === 0 && journal.typographyBindings.length === 0 && journal.updatedValues.length === 0;
+}
+// An empty journal clears the stored one instead of leaving a run with nothing to revert
+function persistRunJournal(journal) {
+    if (isEmptyRunJournal(journal)) {
+        clearRunJournal();
+    }
+    else {
+        saveRunJournal(journal);
+    }
+}
+function loadRunJournal() {
+    const chunkCount = parseInt(figma.root.getPluginData(PLUGIN_DATA_KEYS.RUN_JOURNAL), 10);
+    if (!chunkCount) {
         return null;
     }
+    try {
+        let serialized = '';
+        for (let i = 0; i < chunkCount; i++) {
+            serialized += figma.root.getPluginData(`${PLUGIN_DATA_KEYS.RUN_JOURNAL}:${i}`);
+        }
+        const journal = JSON.parse(serialized);
+        if (!Array.isArray(journal.createdVariableIds) || !Array.isArray(journal.boundNodes)) {
+            throw new Error('Journal is malformed');
+        }
+        // Journals written before retries could change collection name a single one
+        const legacy = journal;
+        journal.collectionIds = Array.isArray(journal.collectionIds) ? journal.collectionIds : legacy.collectionId ? [legacy.collectionId] : [];
+        delete legacy.collectionId;
+        // Journals written before splitting existed have no split entries
+        journal.splitNodes = Array.isArray(journal.splitNodes) ? journal.splitNodes : [];
+        journal.exposedProperties = Array.isArray(journal.exposedProperties) ? journal.exposedProperties : [];
+        journal.typographyBindings = Array.isArray(journal.typographyBindings) ? journal.typographyBindings : [];
+        journal.updatedValues = Array.isArray(journal.updatedValues) ? journal.updatedValues : [];
+        return journal;
+    }
     catch (error) {
-        // getBoundVariable() threw an error - likely a ghost or corrupted binding
-        console.warn(`Error checking variable connection for node ${textNode.id}:`, error);
-        return {
-            nodeId: textNode.id,
-            nodeName: textNode.name,
-            textContent: textNode.characters,
-            bindingType: binding,
-            ghostVariableId: 'error'
-        };
+        console.warn('Could not read the last run journal:', error);
+        return null;
     }
 }
-async function clearGhostVariables(ghostIds) {
+function clearRunJournal() {
+    for (const key of figma.root.getPluginDataKeys()) {
+        if (key === PLUGIN_DATA_KEYS.RUN_JOURNAL || key.startsWith(`${PLUGIN_DATA_KEYS.RUN_JOURNAL}:`)) {
+            figma.root.setPluginData(key, '');
+        }
+    }
+}
+function summarizeRunJournal(journal) {
+    if (!journal || isEmptyRunJournal(journal)) {
+        return null;
+    }
+    return {
+        collectionIds: journal.collectionIds,
+        startedAt: journal.startedAt,
+        createdCount: journal.createdVariableIds.length,
+        boundCount: journal.boundNodes.length,
+        splitCount: journal.splitNodes.length,
+        propertyCount: journal.exposedProperties.length,
+        typographyCount: journal.typographyBindings.length,
+        updatedCount: journal.updatedValues.length
+    };
+}
+function collectAliasIds(value, ids) {
+    if (!value || typeof value !== 'object') {
+        return;
+    }
+    if (Array.isArray(value)) {
+        value.forEach(item => collectAliasIds(item, ids));
+        return;
+    }
+    const alias = value;
+    if (alias.type === 'VARIABLE_ALIAS' && typeof alias.id === 'string') {
+        ids.add(alias.id);
+        return;
+    }
+    Object.values(value).forEach(item => collectAliasIds(item, ids));
+}
+async function findVariablesInUse(candidateIds) {
+    const referencedIds = new Set();
+    // Bindings on any node in any page
+    for (const page of await loadScanPages()) {
+        page.findAll(node => {
+            var _a;
+            if ('boundVariables' in node) {
+                collectAliasIds(node.boundVariables, referencedIds);
+            }
+            // Property defaults and instance property values can hold aliases too
+            if (node.type === 'COMPONENT_SET' || (node.type === 'COMPONENT' && ((_a = node.parent) === null || _a === void 0 ? void 0 : _a.type) !== 'COMPONENT_SET')) {
+                collectAliasIds(node.componentPropertyDefinitions, referencedIds);
+            }
+            else if (node.type === 'INSTANCE') {
+                collectAliasIds(node.componentProperties, referencedIds);
+            }
+            return false;
+        });
+    }
+    // Typography bound through local text styles
+    for (const style of await figma.getLocalTextStylesAsync()) {
+        collectAliasIds(style.boundVariables, referencedIds);
+    }
+    // Aliases from other variables
+    const collections = await figma.variables.getLocalVariableCollectionsAsync();
+    for (const collection of collections) {
+        for (const variableId of collection.variableIds) {
+            if (candidateIds.has(variableId))
+                continue;
+            const variable = await figma.variables.getVariableByIdAsync(variableId);
+            if (variable) {
+                collectAliasIds(variable.valuesByMode, referencedIds);
+            }
+        }
+    }
+    return new Set(Array.from(candidateIds).filter(id => referencedIds.has(id)));
+}
+async function loadFontsForTextNode(textNode) {
+    if (textNode.fontName !== figma.mixed) {
+        await figma.loadFontAsync(textNode.fontName);
+        return;
+    }
+    const fonts = textNode.getRangeAllFontNames(0, textNode.characters.length);
+    await Promise.all(fonts.map(font => figma.loadFontAsync(font)));
+}
+async function splitTextNode(textNode, journal) {
+    const parent = textNode.parent;
+    if (!parent || !('insertChild' in parent)) {
+        throw new PluginError(`Cannot split "${textNode.name}" outside an editable container`, {
+            code: ERROR_CODES.SPLIT_FAILED,
+            context: { nodeId: textNode.id }
+        });
+    }
+    await loadFontsForTextNode(textNode);
+    const segments = textNode.getStyledTextSegments([...MIXED_STYLE_FIELDS]);
+    const length = textNode.characters.length;
+    // The segments flow in a wrapping auto-layout frame the size of the original layer
+    const container = figma.createFrame();
+    container.name = textNode.name;
+    container.fills = [];
+    container.clipsContent = false;
+    container.layoutMode = 'HORIZONTAL';
+    container.layoutWrap = 'WRAP';
+    container.itemSpacing = 0;
+    container.counterAxisSpacing = 0;
+    container.counterAxisAlignItems = 'BASELINE';
+    parent.insertChild(parent.children.indexOf(textNode) + 1, container);
+    container.x = textNode.x;
+    container.y = textNode.y;
+    container.resize(Math.max(textNode.width, 1), Math.max(textNode.height, 1));
+    container.primaryAxisSizingMode = 'FIXED';
+    container.counterAxisSizingMode = 'AUTO';
+    const segmentNodes = [];
+    for (let i = 0; i < segments.length; i++) {
+        const segment = segments[i];
+        const clone = textNode.clone();
+        container.appendChild(clone);
+        // Cut the clone down to its segment so the segment keeps its own styling
+        if (segment.end < length)
+            clone.deleteCharacters(segment.end, length);
+        if (segment.start > 0)
+            clone.deleteCharacters(0, segment.start);
+        clone.textAutoResize = 'WIDTH_AND_HEIGHT';
+        clone.name = `${textNode.name} ${i + 1}`;
+        segmentNodes.push(clone);
+    }
+    // Hidden rather than removed so a rollback can bring it back
+    textNode.visible = false;
+    journal.splitNodes.push({ originalNodeId: textNode.id, containerId: container.id });
+    return segmentNodes;
+}
+async function rollbackRun(journal) {
+    var _a, _b, _c;
     const result = {
-        totalAttempted: ghostIds.length,
-        successfullyCleared: 0,
-        failed: 0,
-        errors: []
+        unboundNodes: 0,
+        deletedVariables: 0,
+        keptVariables: 0,
+        restoredSplits: 0,
+        removedProperties: 0,
+        unboundTypography: 0,
+        restoredValues: 0,
+        failed: 0
     };
-    for (const nodeId of ghostIds) {
+    // Unbind in reverse order so the original text is restored before variables go away
+    for (const entry of [...journal.boundNodes].reverse()) {
+        try {
+            if (entry.target === 'component-property' || entry.target === 'instance-property') {
+                if (await restorePropertyBinding(entry)) {
+                    result.unboundNodes++;
+                }
+                continue;
+            }
+            const node = await figma.getNodeByIdAsync(entry.nodeId);
+            if (!node || node.type !== 'TEXT' || node.removed) {
+                throw new Error('Node no longer exists');
+            }
+            // Leave nodes alone that have since been bound to something else
+            if (((_b = (_a = node.boundVariables) === null || _a === void 0 ? void 0 : _a.characters) === null || _b === void 0 ? void 0 : _b.id) !== entry.variableId) {
+                continue;
+            }
+            node.setBoundVariable('characters', null);
+            // Layers moved off a variable that still exists go back to it, showing its value again
+            const previous = entry.previousVariableId ? await figma.variables.getVariableByIdAsync(entry.previousVariableId) : null;
+            if (previous) {
+                await loadFontsForTextNode(node);
+                bindTextNodeToVariable(node, previous);
+            }
+            else if (node.characters !== entry.originalCharacters) {
+                await loadFontsForTextNode(node);
+                node.characters = entry.originalCharacters;
+            }
+            result.unboundNodes++;
+        }
+        catch (error) {
+            result.failed++;
+            console.error(`Failed to unbind node ${entry.nodeId}:`, error);
+        }
+    }
+    // Put split layers back the way they were: drop the segment frame, show the original
+    for (const entry of [...journal.splitNodes].reverse()) {
+        try {
+            const container = await figma.getNodeByIdAsync(entry.containerId);
+            if (container && !container.removed) {
+                container.remove();
+            }
+            const original = await figma.getNodeByIdAsync(entry.originalNodeId);
+            if (!original || original.type !== 'TEXT' || original.removed) {
+                throw new Error('Original text layer no longer exists');
+            }
+            original.visible = true;
+            result.restoredSplits++;
+        }
+        catch (error) {
+            result.failed++;
+            console.error(`Failed to restore split layer ${entry.originalNodeId}:`, error);
+        }
+    }
+    // Drop properties the run added; layers it linked to an existing property are unlinked again
+    for (const entry of [...journal.exposedProperties].reverse()) {
         try {
-            const node = await figma.getNodeByIdAsync(nodeId);
-            if (!node) {
-                throw new Error('Node no longer exists');
+            if (entry.created) {
+                const owner = await figma.getNodeByIdAsync(entry.ownerId);
+                if (owner && !owner.removed && (owner.type === 'COMPONENT' || owner.type === 'COMPONENT_SET') &&
+                    entry.propertyName in owner.componentPropertyDefinitions) {
+                    owner.deleteComponentProperty(entry.propertyName);
+                    result.removedProperties++;
+                }
+                continue;
             }
-            if (node.type !== 'TEXT') {
-                throw new Error('Node is no longer a text layer');
+            const node = await figma.getNodeByIdAsync(entry.nodeId);
+            if (node && node.type === 'TEXT' && !node.removed && ((_c = node.componentPropertyReferences) === null || _c === void 0 ? void 0 : _c.characters) === entry.propertyName) {
+                const references = Object.assign({}, node.componentPropertyReferences);
+                delete references.characters;
+                node.componentPropertyReferences = references;
             }
-            if (node.removed) {
-                throw new Error('Node has been removed from the document');
+        }
+        catch (error) {
+            result.failed++;
+            console.error(`Failed to remove component property ${entry.propertyName}:`, error);
+        }
+    }
+    // Typography keeps the values it showed once unbound, so only the bindings need undoing
+    for (const entry of [...journal.typographyBindings].reverse()) {
+        try {
+            const target = entry.isStyle
+                ? await figma.getStyleByIdAsync(entry.targetId)
+                : await figma.getNodeByIdAsync(entry.targetId);
+            if (!target || target.type !== 'TEXT') {
+                throw new Error('Text layer or style no longer exists');
             }
-            // Find and clear all ghost bindings for this node
-            const bindings = ['characters'];
-            let clearedAny = false;
-            for (const binding of bindings) {
-                try {
-                    const boundVariable = node.getBoundVariable(binding);
-                    if (boundVariable) {
-                        // Check if this is actually a ghost (variable doesn't exist)
-                        const variable = await figma.variables.getVariableByIdAsync(boundVariable.id);
-                        if (!variable) {
-                            // Clear the ghost binding
-                            node.setBoundVariable(binding, null);
-                            clearedAny = true;
-                        }
-                    }
-                }
-                catch (error) {
-                    // Binding exists but variable is inaccessible - clear it
-                    node.setBoundVariable(binding, null);
-                    clearedAny = true;
-                }
+            if (readTypographyBinding(target, entry.field) !== entry.variableId) {
+                continue;
             }
-            if (clearedAny) {
-                result.successfullyCleared++;
+            target.setBoundVariable(entry.field, null);
+            result.unboundTypography++;
+        }
+        catch (error) {
+            result.failed++;
+            console.error(`Failed to unbind ${entry.field} from ${entry.targetId}:`, error);
+        }
+    }
+    for (const entry of [...journal.updatedValues].reverse()) {
+        try {
+            const variable = await figma.variables.getVariableByIdAsync(entry.variableId);
+            if (!variable) {
+                throw new Error('Variable no longer exists');
             }
-            else {
-                result.failed++;
-                result.errors.push({
-                    nodeId,
-                    nodeName: node.name,
-                    error: 'No ghost bindings found to clear',
-                    bindingType: 'unknown'
-                });
+            // Leave values alone that have been edited again since
+            if (variable.valuesByMode[entry.modeId] !== entry.value) {
+                continue;
             }
+            variable.setValueForMode(entry.modeId, entry.previousValue);
+            result.restoredValues++;
         }
         catch (error) {
             result.failed++;
-            result.errors.push({
-                nodeId,
-                nodeName: 'unknown',
-                error: error instanceof Error ? error.message : 'Unknown error',
-                bindingType: 'unknown'
-            });
-            console.error(`Failed to clear ghost variable ${nodeId}:`, error);
+            console.error(`Failed to restore the value of variable ${entry.variableId}:`, error);
+        }
+    }
+    // Only delete variables created by the run that nothing else has picked up since
+    const variablesInUse = await findVariablesInUse(new Set(journal.createdVariableIds));
+    for (const variableId of journal.createdVariableIds) {
+        if (variablesInUse.has(variableId)) {
+            result.keptVariables++;
+            continue;
+        }
+        try {
+            const variable = await figma.variables.getVariableByIdAsync(variableId);
+            if (variable) {
+                variable.remove();
+                result.deletedVariables++;
+            }
+        }
+        catch (error) {
+            result.failed++;
+            console.error(`Failed to delete variable ${variableId}:`, error);
         }
     }
     return result;
@@ -610,11 +3531,15 @@ async function clearGhostVariables(ghostIds) {
 // ============================================================================
 // Plugin state management
 let isProcessing = false;
+let cancelRequested = false;
+let activeSettings = DEFAULT_SETTINGS;
 // ============================================================================
 // MAIN PLUGIN LOGIC
 // ============================================================================
 // Show the UI
 figma.showUI(__html__, PLUGIN_CONFIG.UI_DIMENSIONS);
+// Load persisted settings before the first run can start
+refreshActiveSettings().catch(error => console.warn('Could not load settings:', error));
 // Enhanced Scanning - Optimized Selection Change Handler
 let selectionChangeTimeout = null;
 let lastSelectionHash = '';
@@ -631,28 +3556,33 @@ figma.on('selectionchange', () => {
             // Only update if selection actually changed
             if (selectionHash !== lastSelectionHash) {
                 lastSelectionHash = selectionHash;
-                const scope = determineScanScope();
-                const preview = createScanPreview(scope);
                 // Only send update if UI is ready and not processing
                 if (!isProcessing) {
-                    figma.ui.postMessage({
-                        type: 'selection-changed',
-                        scope: preview
-                    });
-                    // Also trigger a text layer scan to update the main counter
                     try {
-                        const textLayers = findTextNodesInScope(scope);
+                        // A single walk feeds the preview count, the layer list and the skip reasons
+                        const scope = determineScanScope(false);
+                        const { eligible: textLayers, skipped } = partitionScannedTextNodes(scope);
+                        scope.textNodeCount = textLayers.length;
+                        figma.ui.postMessage({
+                            type: 'selection-changed',
+                            scope: createScanPreview(scope)
+                        });
                         const layers = textLayers.map((layer) => ({
                             id: layer.id,
                             name: layer.name,
                             characters: layer.characters,
-                            node: layer
+                            node: layer,
+                            mixedStyles: hasMixedStyles(layer)
                         }));
                         figma.ui.postMessage({
                             type: 'text-layers-found',
                             layers: layers,
                             validCount: layers.length,
-                            totalCount: scope.textNodeCount
+                            totalCount: scope.textNodeCount,
+                            mixedStyleCount: layers.filter(layer => layer.mixedStyles).length,
+                            mixedStylePolicy: activeSettings.mixedStyles,
+                            skipped: skipped.slice(0, MAX_REPORTED_SKIPS),
+                            skippedCount: skipped.length
                         });
                     }
                     catch (error) {
@@ -682,22 +3612,76 @@ async function handleMessage(msg) {
             await handleGetCollections();
             break;
         case 'scan-text-layers':
-            await handleScanTextLayers(msg.selectedCollectionId);
+            await handleScanTextLayers(msg.selectedCollectionId, msg.pageIds);
             break;
         case 'create-variables':
-            await handleCreateVariables(msg.collectionId);
+            await handleCreateVariables(msg.collectionId, msg.modeId, msg.pageIds, msg.typographyCollectionId);
             break;
         case 'create-default-collection':
             await handleCreateDefaultCollection();
             break;
         case 'scan-ghost-variables':
-            await handleScanGhostVariables();
+            await handleScanGhostVariables(msg.pageIds, msg.collectionId);
+            break;
+        case 'repair-ghost-variables':
+            await handleRepairGhostVariables(msg.ghostIds, msg.collectionId);
             break;
         case 'clear-ghost-variables':
             await handleClearGhostVariables(msg.ghostIds);
             break;
         case 'select-ghost-layer':
-            await handleSelectGhostLayer(msg.nodeId);
+            await handleSelectLayer(msg.nodeId);
+            break;
+        case 'cancel-processing':
+            handleCancelProcessing();
+            break;
+        case 'rollback-run':
+            await handleRollbackRun();
+            break;
+        case 'get-last-run':
+            handleGetLastRun();
+            break;
+        case 'preview-plan':
+            await handlePreviewPlan(msg.collectionId, msg.modeId, msg.pageIds);
+            break;
+        case 'apply-plan':
+            await handleApplyPlan(msg.collectionId, msg.rows, msg.modeId, msg.typographyCollectionId);
+            break;
+        case 'retry-layers':
+            await handleRetryLayers(msg.collectionId, msg.nodeIds, msg.modeId, msg.typographyCollectionId);
+            break;
+        case 'select-layer':
+            await handleSelectLayer(msg.nodeId);
+            break;
+        case 'audit-text':
+            await handleAuditText(msg.collectionId, msg.pageIds);
+            break;
+        case 'scan-drift':
+            await handleScanDrift(msg.pageIds);
+            break;
+        case 'fix-drift':
+            await handleFixDrift(msg.rows);
+            break;
+        case 'get-pages':
+            await handleGetPages();
+            break;
+        case 'get-settings':
+            await handleGetSettings();
+            break;
+        case 'save-settings':
+            await handleSaveSettings(msg.scope, msg.settings);
+            break;
+        case 'reset-settings':
+            await handleResetSettings(msg.scope);
+            break;
+        case 'export-strings':
+            await handleExportStrings(msg.collectionId, msg.format);
+            break;
+        case 'preview-import':
+            await handlePreviewImport(msg.collectionId, msg.files, msg.locale);
+            break;
+        case 'apply-import':
+            await handleApplyImport(msg.collectionId, msg.files, msg.locale);
             break;
         default:
             throw new Error(`Unknown message type: ${msg.type}`);
@@ -715,7 +3699,7 @@ async function handleGetCollections() {
         throw new PluginError(`Failed to load collections: ${error instanceof Error ? error.message : String(error)}`);
     }
 }
-async function handleScanTextLayers(selectedCollectionId) {
+async function handleScanTextLayers(selectedCollectionId, pageIds) {
     try {
         // First, get current collections to validate the selected one
         const collections = await getVariableCollections();
@@ -730,9 +3714,8 @@ async function handleScanTextLayers(selectedCollectionId) {
                 return;
             }
         }
-        // Enhanced Scanning - Use selection-aware logic
-        const scope = determineScanScope();
-        const textNodes = findTextNodesInScope(scope);
+        // Enhanced Scanning - Use selection-aware logic unless pages were picked
+        const { scope, textLayers: textNodes } = await resolveScan(pageIds);
         // Send scope information to UI
         sendMessage({
             type: 'scan-scope-detected',
@@ -743,21 +3726,29 @@ async function handleScanTextLayers(selectedCollectionId) {
             id: layer.id,
             name: layer.name,
             characters: layer.characters,
-            node: layer
+            node: layer,
+            mixedStyles: hasMixedStyles(layer)
         }));
+        const skipped = findSkippedTextLayers(scope);
         sendMessage({
             type: 'text-layers-found',
             layers: layers,
             validCount: layers.length,
             totalCount: scope.textNodeCount,
-            scopeType: scope.type
+            scopeType: scope.type,
+            mixedStyleCount: layers.filter(layer => layer.mixedStyles).length,
+            mixedStylePolicy: activeSettings.mixedStyles,
+            skipped: skipped.slice(0, MAX_REPORTED_SKIPS),
+            skippedCount: skipped.length
         });
         if (layers.length === 0) {
-            const message = scope.textNodeCount > 0
-                ? `Found ${scope.textNodeCount} text layers, but none are suitable for variable creation (may be hidden, locked, or already bound to variables).`
+            const message = skipped.length > 0
+                ? `Found ${skipped.length} text layers, but none are suitable for variable creation. The plugin lists why each was skipped.`
                 : scope.type === 'selection'
                     ? 'No suitable text layers selected for processing.'
-                    : 'No suitable text layers found on the current page.';
+                    : scope.type === 'document'
+                        ? 'No suitable text layers found on the chosen pages.'
+                        : 'No suitable text layers found on the current page.';
             figma.notify(message, { timeout: 3000 });
         }
     }
@@ -765,36 +3756,274 @@ async function handleScanTextLayers(selectedCollectionId) {
         throw new PluginError(`Failed to scan text layers: ${error instanceof Error ? error.message : String(error)}`);
     }
 }
-async function handleCreateVariables(collectionId) {
+async function handleCreateVariables(collectionId, modeId, pageIds, typographyCollectionId) {
     if (!collectionId) {
         throw new PluginError('Collection ID is required');
     }
     if (isProcessing) {
         throw new PluginError('Processing is already in progress');
     }
-    isProcessing = true;
+    // Enhanced Scanning - Use selection-aware logic for variable creation
+    const { textLayers } = await resolveScan(pageIds);
+    if (textLayers.length === 0) {
+        throw new PluginError('No valid text layers found for processing');
+    }
+    await runProcessing(textLayers, collectionId, modeId, typographyCollectionId);
+}
+async function handlePreviewPlan(collectionId, modeId, pageIds) {
+    if (!collectionId) {
+        throw new PluginError('Collection ID is required');
+    }
     try {
-        // Enhanced Scanning - Use selection-aware logic for variable creation
-        const scope = determineScanScope();
-        const textLayers = findTextNodesInScope(scope);
-        if (textLayers.length === 0) {
-            throw new PluginError('No valid text layers found for processing');
+        const { textLayers } = await resolveScan(pageIds);
+        const rows = await buildProcessingPlan(textLayers, collectionId, activeSettings, modeId);
+        sendMessage({
+            type: 'plan-ready',
+            rows
+        });
+    }
+    catch (error) {
+        if (error instanceof PluginError)
+            throw error;
+        throw new PluginError(`Failed to build preview: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+async function handleApplyPlan(collectionId, rows, modeId, typographyCollectionId) {
+    if (!collectionId) {
+        throw new PluginError('Collection ID is required');
+    }
+    if (isProcessing) {
+        throw new PluginError('Processing is already in progress');
+    }
+    const { textLayers, nameOverrides } = await resolvePlanSelection(rows, collectionId, modeId);
+    if (textLayers.length === 0) {
+        throw new PluginError('The plan has no layers left to apply');
+    }
+    await runProcessing(textLayers, collectionId, modeId, typographyCollectionId, nameOverrides);
+}
+async function handleRetryLayers(collectionId, nodeIds, modeId, typographyCollectionId) {
+    if (!collectionId) {
+        throw new PluginError('Collection ID is required');
+    }
+    if (isProcessing) {
+        throw new PluginError('Processing is already in progress');
+    }
+    const textLayers = [];
+    for (const nodeId of nodeIds) {
+        const node = await figma.getNodeByIdAsync(nodeId);
+        if (node && node.type === 'TEXT' && !node.removed) {
+            textLayers.push(node);
         }
-        const result = await processTextLayersWithProgress(textLayers, collectionId);
+    }
+    if (textLayers.length === 0) {
+        throw new PluginError('None of the failed layers exist any more');
+    }
+    // Carry on the last run's journal so one revert undoes the run and its retry;
+    // a fresh journal here would replace the original run's and lose its undo
+    const lastRun = loadRunJournal();
+    if (lastRun) {
+        noteJournalCollection(lastRun, collectionId);
+    }
+    await runProcessing(textLayers, collectionId, modeId, typographyCollectionId, undefined, lastRun || undefined);
+}
+async function runProcessing(textLayers, collectionId, modeId, typographyCollectionId, nameOverrides, journal = createRunJournal(collectionId)) {
+    // Fail before anything is journaled if the chosen mode is gone
+    const targetModeId = resolveTargetModeId(await validateCollection(collectionId), modeId);
+    isProcessing = true;
+    cancelRequested = false;
+    try {
+        const result = await processTextLayersWithProgress(textLayers, collectionId, targetModeId, journal, activeSettings, nameOverrides, typographyCollectionId);
         sendMessage({
-            type: 'variables-created',
+            type: result.cancelled ? 'processing-cancelled' : 'variables-created',
             result
         });
         const summary = createProcessingSummary(result);
         figma.notify(summary, { timeout: 5000 });
     }
+    finally {
+        isProcessing = false;
+        cancelRequested = false;
+    }
+}
+function handleCancelProcessing() {
+    // The batch loop picks this up before starting its next batch
+    if (isProcessing) {
+        cancelRequested = true;
+    }
+}
+async function handleRollbackRun() {
+    if (isProcessing) {
+        throw new PluginError('Cannot roll back while processing is in progress');
+    }
+    const journal = loadRunJournal();
+    if (!journal) {
+        throw new PluginError('There is no run to roll back');
+    }
+    try {
+        const result = await rollbackRun(journal);
+        clearRunJournal();
+        sendMessage({
+            type: 'run-rolled-back',
+            result
+        });
+        figma.notify(`Rolled back ${result.unboundNodes} binding${result.unboundNodes !== 1 ? 's' : ''} and ${result.deletedVariables} variable${result.deletedVariables !== 1 ? 's' : ''}`, { timeout: 5000 });
+    }
+    catch (error) {
+        throw new PluginError(`Failed to roll back run: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+function handleGetLastRun() {
+    sendMessage({
+        type: 'last-run-loaded',
+        lastRun: summarizeRunJournal(loadRunJournal())
+    });
+}
+async function refreshActiveSettings() {
+    const state = await loadSettingsState();
+    activeSettings = state.effective;
+    return state;
+}
+async function handleGetPages() {
+    try {
+        const pages = await summarizePages();
+        sendMessage({
+            type: 'pages-loaded',
+            pages
+        });
+    }
+    catch (error) {
+        throw new PluginError(`Failed to load pages: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+async function handleGetSettings() {
+    sendMessage({
+        type: 'settings-loaded',
+        settings: await refreshActiveSettings()
+    });
+}
+async function handleSaveSettings(scope, settings) {
+    if (isProcessing) {
+        throw new PluginError('Settings cannot be changed while processing is in progress');
+    }
+    await saveSettings(scope, settings);
+    await handleGetSettings();
+    figma.notify(scope === 'user' ? 'Settings saved for all your files' : 'Settings saved for this file', { timeout: 3000 });
+}
+async function handleResetSettings(scope) {
+    if (isProcessing) {
+        throw new PluginError('Settings cannot be changed while processing is in progress');
+    }
+    await resetSettings(scope);
+    await handleGetSettings();
+    figma.notify(scope === 'user' ? 'Your settings were reset to defaults' : 'File settings were removed', { timeout: 3000 });
+}
+async function handleExportStrings(collectionId, format) {
+    if (!collectionId) {
+        throw new PluginError('Collection ID is required');
+    }
+    if (!EXPORT_FORMATS.includes(format)) {
+        throw new PluginError(`Unsupported export format: ${format}`, {
+            code: ERROR_CODES.EXPORT_FAILED,
+            context: { format }
+        });
+    }
+    try {
+        // Exports carry placeholders rather than the sample data shown in the design
+        const strings = applyPlaceholderTemplates(await readCollectionStrings(collectionId));
+        if (strings.entries.length === 0) {
+            throw new PluginError('The selected collection has no string variables to export', {
+                code: ERROR_CODES.EXPORT_FAILED,
+                context: { collectionId }
+            });
+        }
+        sendMessage({
+            type: 'export-ready',
+            files: buildExportFiles(strings, format),
+            entryCount: strings.entries.length
+        });
+    }
+    catch (error) {
+        if (error instanceof PluginError)
+            throw error;
+        throw new PluginError(`Failed to export strings: ${error instanceof Error ? error.message : String(error)}`, {
+            code: ERROR_CODES.EXPORT_FAILED
+        });
+    }
+}
+async function handlePreviewImport(collectionId, files, locale) {
+    if (!collectionId) {
+        throw new PluginError('Collection ID is required');
+    }
+    if (!files || files.length === 0) {
+        throw new PluginError('Choose at least one file to import', { code: ERROR_CODES.IMPORT_FAILED });
+    }
+    const diff = await buildImportDiff(collectionId, files, locale);
+    sendMessage({
+        type: 'import-preview',
+        diff
+    });
+}
+async function handleApplyImport(collectionId, files, locale) {
+    if (!collectionId) {
+        throw new PluginError('Collection ID is required');
+    }
+    if (isProcessing) {
+        throw new PluginError('Cannot import while processing is in progress');
+    }
+    // Rebuilt rather than trusted from the UI so the applied values match the current document
+    const diff = await buildImportDiff(collectionId, files || [], locale);
+    try {
+        const result = await applyImportDiff(diff);
+        sendMessage({
+            type: 'import-applied',
+            result
+        });
+        figma.notify(`Imported ${result.valuesSet} translation${result.valuesSet !== 1 ? 's' : ''}`, { timeout: 5000 });
+    }
+    catch (error) {
+        if (error instanceof PluginError)
+            throw error;
+        throw new PluginError(`Failed to import translations: ${error instanceof Error ? error.message : String(error)}`, {
+            code: ERROR_CODES.IMPORT_FAILED
+        });
+    }
+}
+async function handleAuditText(collectionId, pageIds) {
+    const report = await buildAuditReport(collectionId, pageIds);
+    sendMessage({
+        type: 'audit-ready',
+        report
+    });
+    figma.notify(`Copy coverage ${report.coverage}% of ${report.textCount} text layer${report.textCount !== 1 ? 's' : ''}`, { timeout: 3000 });
+}
+async function handleScanDrift(pageIds) {
+    const rows = await scanForDrift(pageIds);
+    sendMessage({
+        type: 'drift-found',
+        rows
+    });
+}
+async function handleFixDrift(rows) {
+    if (isProcessing) {
+        throw new PluginError('Processing is already in progress');
+    }
+    isProcessing = true;
+    try {
+        const result = await fixDrift(rows || []);
+        sendMessage({
+            type: 'drift-fixed',
+            result
+        });
+        const fixed = result.updated + result.reset + result.forked;
+        figma.notify(`Fixed ${fixed} drifted layer${fixed !== 1 ? 's' : ''}`, { timeout: 3000 });
+    }
     finally {
         isProcessing = false;
     }
 }
 async function handleCreateDefaultCollection() {
     try {
-        const collectionId = await createDefaultCollection();
+        const collectionId = await createDefaultCollection(activeSettings.defaultCollectionName);
         const collections = await getVariableCollections();
         sendMessage({
             type: 'collection-created',
@@ -807,9 +4036,9 @@ async function handleCreateDefaultCollection() {
         throw new PluginError(`Failed to create collection: ${error instanceof Error ? error.message : String(error)}`);
     }
 }
-async function handleScanGhostVariables() {
+async function handleScanGhostVariables(pageIds, collectionId) {
     try {
-        const ghosts = await scanForGhostVariables();
+        const ghosts = await scanForGhostVariables(pageIds, collectionId);
         sendMessage({
             type: 'ghost-variables-found',
             ghosts,
@@ -848,7 +4077,19 @@ async function handleClearGhostVariables(ghostIds) {
         throw new PluginError(`Failed to clear ghost variables: ${error instanceof Error ? error.message : String(error)}`);
     }
 }
-async function handleSelectGhostLayer(nodeId) {
+async function handleRepairGhostVariables(ghostIds, collectionId) {
+    if (isProcessing) {
+        throw new PluginError('Processing is already in progress');
+    }
+    const result = await repairGhostVariables(ghostIds || [], collectionId);
+    sendMessage({
+        type: 'ghost-repair-complete',
+        result
+    });
+    const repaired = result.rebound + result.created;
+    figma.notify(`Repaired ${repaired} ghost variable${repaired !== 1 ? 's' : ''}`, { timeout: 5000 });
+}
+async function handleSelectLayer(nodeId) {
     try {
         const node = await figma.getNodeByIdAsync(nodeId);
         if (!node) {
@@ -859,90 +4100,166 @@ async function handleSelectGhostLayer(nodeId) {
             figma.notify('Layer has been removed from the document', { error: true, timeout: 3000 });
             return;
         }
+        // Layers found by a document scan may live on another page
+        const page = findPageNode(node);
+        if (page && page.id !== figma.currentPage.id) {
+            await figma.setCurrentPageAsync(page);
+        }
         // Select the node
         figma.currentPage.selection = [node];
         figma.viewport.scrollAndZoomIntoView([node]);
         figma.notify(`Selected layer: ${node.name}`, { timeout: 2000 });
     }
     catch (error) {
-        console.error('Error selecting ghost layer:', error);
+        console.error('Error selecting layer:', error);
         figma.notify('Failed to select layer', { error: true, timeout: 3000 });
     }
 }
-async function processTextLayersWithProgress(textLayers, collectionId) {
+async function processTextLayersWithProgress(textLayers, collectionId, modeId, journal, settings, nameOverrides, typographyCollectionId) {
     const stats = {
         created: 0,
         connected: 0,
         skipped: 0,
-        errors: 0
+        errors: 0,
+        bindingTargets: { text: 0, 'component-property': 0, 'instance-property': 0 },
+        typographyBound: 0,
+        typographyFailed: 0,
+        outcomes: []
     };
-    const existingVariables = await getExistingVariables(collectionId);
-    const variableCache = createVariableCache();
+    const startedAt = Date.now();
+    const variableIndex = await buildVariableIndex(collectionId, modeId);
+    const typographyIndex = typographyCollectionId ? await buildTypographyIndex(typographyCollectionId) : null;
+    const indexedAt = Date.now();
+    const indexedVariables = variableIndex.byKey.size;
+    const dedupIndex = settings.dedup.enabled
+        ? createDedupIndex(textLayers, variableIndex, settings, nameOverrides)
+        : null;
     const totalLayers = textLayers.length;
-    const errors = [];
-    for (let i = 0; i < totalLayers; i += PLUGIN_CONFIG.BATCH_SIZE) {
-        const batch = textLayers.slice(i, i + PLUGIN_CONFIG.BATCH_SIZE);
+    let cancelled = false;
+    // Name the page in progress updates when the run spans several pages
+    const spansPages = new Set(textLayers.map(layer => { var _a; return (_a = findPageNode(layer)) === null || _a === void 0 ? void 0 : _a.id; })).size > 1;
+    // This run replaces the stored one straight away, so reverting never reaches past
+    // a run that changed nothing or was cancelled before its first batch
+    persistRunJournal(journal);
+    for (let i = 0; i < totalLayers; i += settings.batchSize) {
+        if (cancelRequested) {
+            cancelled = true;
+            break;
+        }
+        const batch = textLayers.slice(i, i + settings.batchSize);
         for (const textLayer of batch) {
+            // Described up front, since a failed split can leave the layer removed
+            const layer = describeOutcomeLayer(textLayer);
             try {
-                await processTextLayer(textLayer, existingVariables, variableCache, collectionId, stats);
+                await processTextLayer(textLayer, variableIndex, dedupIndex, typographyIndex, stats, journal, settings, nameOverrides === null || nameOverrides === void 0 ? void 0 : nameOverrides.get(textLayer.id));
             }
             catch (error) {
-                console.error(`Error processing text layer "${textLayer.name}":`, error);
+                console.error(`Error processing text layer "${layer.nodeName}":`, error);
                 stats.errors++;
-                errors.push({
-                    layer: textLayer.name,
-                    error: error instanceof Error ? error.message : 'Unknown error'
-                });
+                stats.outcomes.push(Object.assign(Object.assign({}, layer), { action: 'failed', errorCode: error instanceof PluginError ? error.code : undefined, error: error instanceof Error ? error.message : 'Unknown error', context: error instanceof PluginError ? error.context : undefined }));
             }
         }
-        const processed = Math.min(i + PLUGIN_CONFIG.BATCH_SIZE, totalLayers);
+        // Persist as we go so the run can still be reverted if the plugin is closed mid-run
+        persistRunJournal(journal);
+        const processed = Math.min(i + settings.batchSize, totalLayers);
         const progress = Math.round((processed / totalLayers) * 100);
         const remaining = totalLayers - processed;
         sendMessage({
             type: 'progress-update',
             progress,
-            remaining
+            remaining,
+            pageName: spansPages ? findPageName(batch[batch.length - 1]) : undefined
         });
-        await new Promise(resolve => setTimeout(resolve, PLUGIN_CONFIG.PROGRESS_UPDATE_DELAY));
+        await new Promise(resolve => setTimeout(resolve, settings.progressUpdateDelay));
     }
-    if (errors.length > 0) {
-        console.warn('Processing errors:', errors);
+    const failed = stats.outcomes.filter(outcome => outcome.action === 'failed');
+    if (failed.length > 0) {
+        console.warn('Processing errors:', failed);
     }
-    return Object.assign(Object.assign({}, stats), { totalProcessed: stats.created + stats.connected });
+    const timings = {
+        indexMs: indexedAt - startedAt,
+        processMs: Date.now() - indexedAt,
+        indexedVariables
+    };
+    return Object.assign(Object.assign({}, stats), { totalProcessed: stats.created + stats.connected, cancelled,
+        timings });
 }
-async function processTextLayer(textLayer, existingVariables, variableCache, collectionId, stats) {
-    if (!validateTextLayer(textLayer)) {
-        stats.skipped++;
+async function processTextLayer(textLayer, variableIndex, dedupIndex, typographyIndex, stats, journal, settings, nameOverride) {
+    const skipReason = getTextLayerSkipReason(textLayer, settings.rules, settings.traversal);
+    if (skipReason) {
+        recordSkippedLayer(stats, textLayer, skipReason);
+        return;
+    }
+    if (hasMixedStyles(textLayer) && settings.mixedStyles !== 'flatten') {
+        if (settings.mixedStyles === 'skip') {
+            recordSkippedLayer(stats, textLayer, 'mixed-styles');
+            return;
+        }
+        // Each styled segment becomes its own layer and is processed like any other
+        stats.outcomes.push(Object.assign(Object.assign({}, describeOutcomeLayer(textLayer)), { action: 'split' }));
+        const segments = await splitTextNode(textLayer, journal);
+        for (const segment of segments) {
+            await processTextLayer(segment, variableIndex, dedupIndex, typographyIndex, stats, journal, settings);
+        }
         return;
     }
-    // Process text layer using standard logic with hierarchical naming
-    const { processed: textContent, variableName } = preprocessTextForVariable(textLayer.characters, textLayer);
+    const originalCharacters = textLayer.characters;
+    // Process text layer using standard logic with hierarchical naming,
+    // unless an applied preview plan already fixed the name
+    const preprocessed = preprocessTextForVariable(textLayer.characters, textLayer, settings);
+    const { processed: textContent, placeholders } = preprocessed;
+    const variableName = nameOverride || preprocessed.variableName;
     if (!textContent) {
-        stats.skipped++;
+        recordSkippedLayer(stats, textLayer, 'no-letters');
         return;
     }
-    let variable = getFromVariableCache(variableCache, variableName, textContent);
-    if (variable) {
-        bindTextNodeToVariable(textLayer, variable);
-        stats.connected++;
+    // In dedup mode equal content shares one variable, whatever each layer would be named
+    const contentKey = dedupIndex ? normalizeContentKey(textContent, settings.dedup) : '';
+    let variable = dedupIndex
+        ? dedupIndex.variablesByContent.get(contentKey) || null
+        : findIndexedVariable(variableIndex, variableName, textContent);
+    const site = await resolveBindingSite(textLayer, settings.componentText);
+    let action = 'connected';
+    if (!variable) {
+        const name = (dedupIndex === null || dedupIndex === void 0 ? void 0 : dedupIndex.namesByContent.get(contentKey)) || variableName;
+        variable = createIndexedVariable(variableIndex, name, textContent, !nameOverride || dedupIndex !== null, settings);
+        journal.createdVariableIds.push(variable.id);
+        dedupIndex === null || dedupIndex === void 0 ? void 0 : dedupIndex.variablesByContent.set(contentKey, variable);
+        // Only new variables get the template; rollback deletes them and their data together
+        writePlaceholderMetadata(variable, placeholders);
+        action = 'created';
+    }
+    await bindTextToSite(textLayer, site, variable, journal, originalCharacters);
+    if (action === 'created') {
+        stats.created++;
     }
     else {
-        variable = findExistingVariable(existingVariables, variableName, textContent);
-        if (variable) {
-            bindTextNodeToVariable(textLayer, variable);
-            stats.connected++;
-        }
-        else {
-            variable = await createStringVariable(collectionId, variableName, textContent);
-            const collection = await figma.variables.getVariableCollectionByIdAsync(collectionId);
-            if (collection) {
-                addToVariableCache(variableCache, variable, collection);
-            }
-            bindTextNodeToVariable(textLayer, variable);
-            stats.created++;
+        stats.connected++;
+    }
+    stats.bindingTargets[site.target]++;
+    const outcome = Object.assign(Object.assign({}, describeOutcomeLayer(textLayer)), { action, variableId: variable.id, variableName: variable.name, target: site.target });
+    stats.outcomes.push(outcome);
+    // Copy and type tokens come out of the same sweep when a typography collection is chosen
+    if (typographyIndex) {
+        const typography = await bindTypography(textLayer, typographyIndex, journal, settings);
+        stats.typographyBound += typography.bound;
+        if (typography.errors.length > 0) {
+            stats.typographyFailed += typography.errors.length;
+            outcome.typographyErrors = typography.errors;
         }
     }
 }
+function describeOutcomeLayer(textLayer) {
+    return {
+        nodeId: textLayer.id,
+        nodeName: textLayer.name,
+        pageName: findPageName(textLayer)
+    };
+}
+function recordSkippedLayer(stats, textLayer, skipReason) {
+    stats.skipped++;
+    stats.outcomes.push(Object.assign(Object.assign({}, describeOutcomeLayer(textLayer)), { action: 'skipped', skipReason }));
+}
 function createProcessingSummary(result) {
     const parts = [];
     if (result.created > 0) {
@@ -951,6 +4268,18 @@ function createProcessingSummary(result) {
     if (result.connected > 0) {
         parts.push(`connected ${result.connected} to existing variables`);
     }
+    if (result.bindingTargets['component-property'] > 0) {
+        parts.push(`bound ${result.bindingTargets['component-property']} through component properties`);
+    }
+    if (result.bindingTargets['instance-property'] > 0) {
+        parts.push(`bound ${result.bindingTargets['instance-property']} as instance overrides`);
+    }
+    if (result.typographyBound > 0) {
+        parts.push(`bound ${result.typographyBound} typography properties`);
+    }
+    if (result.typographyFailed > 0) {
+        parts.push(`${result.typographyFailed} typography properties could not be bound`);
+    }
     if (result.skipped > 0) {
         parts.push(`skipped ${result.skipped} layers`);
     }
@@ -958,7 +4287,7 @@ function createProcessingSummary(result) {
         parts.push(`${result.errors} errors occurred`);
     }
     const summary = parts.length > 0 ? parts.join(', ') : 'No changes made';
-    return `Processing complete: ${summary}`;
+    return result.cancelled ? `Processing stopped: ${summary}` : `Processing complete: ${summary}`;
 }
 function handlePluginError(error) {
     let message;
@@ -984,5 +4313,6 @@ function sendMessage(message) {
 // Handle plugin cleanup
 figma.on('close', () => {
     isProcessing = false;
+    cancelRequested = false;
 });
 // Note: Selection changes during processing are handled by the main selection listener above
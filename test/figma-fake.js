@@ -0,0 +1,397 @@
+// In-memory stand-in for the parts of the Figma plugin API that code.js uses,
+// so the plugin can be loaded and exercised under plain Node without Figma.
+
+const fs = require('fs');
+const path = require('path');
+const vm = require('vm');
+
+const MIXED = Symbol('figma.mixed');
+
+function createFigmaFake() {
+  let nextId = 1;
+  const nodesById = new Map();
+  const variablesById = new Map();
+  const collectionsById = new Map();
+  const stylesById = new Map();
+  const clientStorage = new Map();
+  const messages = [];
+  const notifications = [];
+  const handlers = {};
+
+  const allocateId = () => `${nextId++}:1`;
+
+  class PluginDataHolder {
+    constructor() {
+      this.pluginData = {};
+    }
+
+    getPluginData(key) {
+      return this.pluginData[key] || '';
+    }
+
+    setPluginData(key, value) {
+      if (value) {
+        this.pluginData[key] = value;
+      } else {
+        delete this.pluginData[key];
+      }
+    }
+
+    getPluginDataKeys() {
+      return Object.keys(this.pluginData);
+    }
+  }
+
+  class FakeNode extends PluginDataHolder {
+    constructor(type, props = {}) {
+      super();
+      this.id = props.id || allocateId();
+      this.type = type;
+      this.name = props.name || type.toLowerCase();
+      this.parent = null;
+      this.removed = false;
+      this.visible = props.visible !== undefined ? props.visible : true;
+      this.locked = props.locked || false;
+      this.x = 0;
+      this.y = 0;
+      this.width = 100;
+      this.height = 20;
+      this.boundVariables = {};
+      this.resolvedVariableModes = {};
+      this.componentPropertyReferences = null;
+      nodesById.set(this.id, this);
+    }
+
+    remove() {
+      if (this.parent) {
+        this.parent.children.splice(this.parent.children.indexOf(this), 1);
+      }
+      this.parent = null;
+      this.removed = true;
+      nodesById.delete(this.id);
+    }
+  }
+
+  class ContainerNode extends FakeNode {
+    constructor(type, props = {}) {
+      super(type, props);
+      this.children = [];
+    }
+
+    appendChild(child) {
+      return this.insertChild(this.children.length, child);
+    }
+
+    insertChild(index, child) {
+      if (child.parent) {
+        child.parent.children.splice(child.parent.children.indexOf(child), 1);
+      }
+      child.parent = this;
+      this.children.splice(index, 0, child);
+      return child;
+    }
+
+    findAll(predicate = () => true) {
+      const found = [];
+      const visit = node => {
+        for (const child of node.children || []) {
+          if (predicate(child)) found.push(child);
+          visit(child);
+        }
+      };
+      visit(this);
+      return found;
+    }
+
+    findOne(predicate) {
+      return this.findAll(predicate)[0] || null;
+    }
+  }
+
+  class TextNode extends FakeNode {
+    constructor(props = {}) {
+      super('TEXT', props);
+      this.characters = props.characters || '';
+      this.fontName = props.fontName || { family: 'Inter', style: 'Regular' };
+      this.fontSize = props.fontSize || 14;
+      this.fontWeight = props.fontWeight || 400;
+      this.fills = [];
+      this.fillStyleId = '';
+      this.textStyleId = props.textStyleId || '';
+      this.hyperlink = null;
+      this.textDecoration = 'NONE';
+      this.textCase = 'ORIGINAL';
+      this.letterSpacing = props.letterSpacing || { unit: 'PERCENT', value: 0 };
+      this.lineHeight = props.lineHeight || { unit: 'AUTO' };
+    }
+
+    setBoundVariable(field, variable) {
+      if (!variable) {
+        delete this.boundVariables[field];
+        return;
+      }
+
+      // Typography fields can differ per range, so layers list their aliases
+      const alias = { type: 'VARIABLE_ALIAS', id: variable.id };
+      this.boundVariables[field] = field === 'characters' ? alias : [alias];
+      if (field === 'characters') {
+        const collection = collectionsById.get(variable.variableCollectionId);
+        const value = collection && variable.valuesByMode[collection.defaultModeId];
+        if (typeof value === 'string') this.characters = value;
+      }
+    }
+
+    getBoundVariable(field) {
+      return this.boundVariables[field] || null;
+    }
+
+    getRangeAllFontNames() {
+      return [this.fontName];
+    }
+
+    getStyledTextSegments() {
+      return [{ characters: this.characters, start: 0, end: this.characters.length, fontName: this.fontName }];
+    }
+
+    clone() {
+      const copy = new TextNode({ name: this.name, characters: this.characters, fontName: this.fontName });
+      if (this.parent) this.parent.appendChild(copy);
+      return copy;
+    }
+  }
+
+  class PageNode extends ContainerNode {
+    constructor(props = {}) {
+      super('PAGE', props);
+      this.selection = [];
+    }
+
+    async loadAsync() {}
+  }
+
+  const root = new ContainerNode('DOCUMENT', { name: 'Document' });
+
+  class TextStyle {
+    constructor(name, props = {}) {
+      this.id = `S:${allocateId()}`;
+      this.type = 'TEXT';
+      this.name = name;
+      this.remote = props.remote || false;
+      this.fontName = props.fontName || { family: 'Inter', style: 'Regular' };
+      this.boundVariables = {};
+      stylesById.set(this.id, this);
+    }
+
+    setBoundVariable(field, variable) {
+      if (variable) {
+        this.boundVariables[field] = { type: 'VARIABLE_ALIAS', id: variable.id };
+      } else {
+        delete this.boundVariables[field];
+      }
+    }
+  }
+
+  class VariableCollection {
+    constructor(name) {
+      this.id = `VariableCollectionId:${allocateId()}`;
+      this.name = name;
+      this.defaultModeId = `${this.id}/mode:1`;
+      this.modes = [{ modeId: this.defaultModeId, name: 'Mode 1' }];
+      this.variableIds = [];
+      this.remote = false;
+      collectionsById.set(this.id, this);
+    }
+
+    addMode(name) {
+      const modeId = `${this.id}/mode:${this.modes.length + 1}`;
+      this.modes.push({ modeId, name });
+      return modeId;
+    }
+
+    renameMode(modeId, name) {
+      const mode = this.modes.find(candidate => candidate.modeId === modeId);
+      if (mode) mode.name = name;
+    }
+
+    remove() {
+      this.variableIds.slice().forEach(id => variablesById.get(id).remove());
+      collectionsById.delete(this.id);
+    }
+  }
+
+  class Variable extends PluginDataHolder {
+    constructor(name, collection, resolvedType) {
+      super();
+      if (collection.variableIds.some(id => variablesById.get(id).name === name)) {
+        throw new Error(`A variable named "${name}" already exists in this collection`);
+      }
+      this.id = `VariableID:${allocateId()}`;
+      this.name = name;
+      this.resolvedType = resolvedType;
+      this.variableCollectionId = collection.id;
+      this.valuesByMode = {};
+      this.description = '';
+      this.remote = false;
+      this.scopes = ['ALL_SCOPES'];
+      collection.modes.forEach(mode => { this.valuesByMode[mode.modeId] = resolvedType === 'STRING' ? '' : 0; });
+      collection.variableIds.push(this.id);
+      variablesById.set(this.id, this);
+    }
+
+    setValueForMode(modeId, value) {
+      this.valuesByMode[modeId] = value;
+    }
+
+    remove() {
+      const collection = collectionsById.get(this.variableCollectionId);
+      if (collection) collection.variableIds.splice(collection.variableIds.indexOf(this.id), 1);
+      variablesById.delete(this.id);
+    }
+  }
+
+  const figma = {
+    mixed: MIXED,
+    root,
+    currentPage: null,
+    viewport: { scrollAndZoomIntoView() {} },
+    showUI() {},
+    ui: {
+      onmessage: null,
+      postMessage(message) { messages.push(message); }
+    },
+    on(event, handler) { (handlers[event] = handlers[event] || []).push(handler); },
+    notify(message, options) { notifications.push({ message, options }); },
+    clientStorage: {
+      async getAsync(key) { return clientStorage.get(key); },
+      async setAsync(key, value) { clientStorage.set(key, value); },
+      async deleteAsync(key) { clientStorage.delete(key); }
+    },
+    async getNodeByIdAsync(id) { return nodesById.get(id) || null; },
+    async getStyleByIdAsync(id) { return stylesById.get(id) || null; },
+    async getLocalTextStylesAsync() { return Array.from(stylesById.values()).filter(style => !style.remote); },
+    async loadFontAsync() {},
+    async setCurrentPageAsync(page) { figma.currentPage = page; },
+    createFrame() { return new ContainerNode('FRAME', { name: 'Frame' }); },
+    variables: {
+      createVariableCollection: name => new VariableCollection(name),
+      createVariable: (name, collection, resolvedType) => new Variable(name, collection, resolvedType),
+      createVariableAlias: variable => ({ type: 'VARIABLE_ALIAS', id: variable.id }),
+      async getVariableByIdAsync(id) { return variablesById.get(id) || null; },
+      async getVariableCollectionByIdAsync(id) { return collectionsById.get(id) || null; },
+      async getLocalVariableCollectionsAsync() { return Array.from(collectionsById.values()); },
+      async getLocalVariablesAsync(type) {
+        return Array.from(variablesById.values()).filter(variable => !type || variable.resolvedType === type);
+      }
+    }
+  };
+
+  // Builders for fixture documents; children are attached in the order given
+  const attach = (node, children) => {
+    children.forEach(child => node.appendChild(child));
+    return node;
+  };
+
+  const doc = {
+    page(name, children = []) {
+      const page = attach(new PageNode({ name }), children);
+      root.appendChild(page);
+      if (!figma.currentPage) figma.currentPage = page;
+      return page;
+    },
+    frame(name, children = [], props = {}) {
+      return attach(new ContainerNode('FRAME', { ...props, name }), children);
+    },
+    group(name, children = [], props = {}) {
+      return attach(new ContainerNode('GROUP', { ...props, name }), children);
+    },
+    section(name, children = [], props = {}) {
+      return attach(new ContainerNode('SECTION', { ...props, name }), children);
+    },
+    component(name, children = [], props = {}) {
+      return attach(new ContainerNode('COMPONENT', { ...props, name }), children);
+    },
+    text(name, characters, props = {}) {
+      return new TextNode({ ...props, name, characters });
+    },
+    collection(name, modeNames = []) {
+      const collection = new VariableCollection(name);
+      modeNames.forEach((modeName, index) => {
+        if (index === 0) collection.renameMode(collection.defaultModeId, modeName);
+        else collection.addMode(modeName);
+      });
+      return collection;
+    },
+    variable(collection, name, value, resolvedType = 'STRING') {
+      const variable = new Variable(name, collection, resolvedType);
+      collection.modes.forEach(mode => variable.setValueForMode(mode.modeId, value));
+      return variable;
+    },
+    textStyle(name, props = {}) {
+      return new TextStyle(name, props);
+    },
+    // Removes a variable but leaves every binding to it in place, as a deleted library variable does
+    orphan(variable) {
+      variable.remove();
+    }
+  };
+
+  return {
+    figma,
+    doc,
+    messages,
+    notifications,
+    handlers,
+    variables: variablesById,
+    collections: collectionsById
+  };
+}
+
+const PLUGIN_SOURCE = fs.readFileSync(path.join(__dirname, '..', 'code.js'), 'utf8');
+
+const quietConsole = { log() {}, info() {}, warn() {}, error() {}, debug() {} };
+
+// Runs code.js against a fake. Top-level functions become properties of the
+// returned context; constants and plugin state are reached through evaluate().
+function loadPlugin(fake) {
+  const context = vm.createContext({
+    figma: fake.figma,
+    __html__: '',
+    console: quietConsole,
+    setTimeout,
+    clearTimeout
+  });
+  vm.runInContext(PLUGIN_SOURCE, context);
+  context.evaluate = source => vm.runInContext(source, context);
+  return context;
+}
+
+// A document with one page, for tests that only need a plain fixture
+function createPlugin(build) {
+  const fake = createFigmaFake();
+  const fixture = build ? build(fake.doc, fake) : {};
+  if (!fake.figma.currentPage) fake.doc.page('Page 1');
+  const plugin = loadPlugin(fake);
+  return { fake, plugin, fixture };
+}
+
+// Settings with the given overrides merged over the plugin defaults, without progress delays
+function testSettings(plugin, overrides = {}) {
+  const defaults = plugin.evaluate('DEFAULT_SETTINGS');
+  return {
+    ...defaults,
+    progressUpdateDelay: 0,
+    ...overrides,
+    naming: { ...defaults.naming, ...(overrides.naming || {}) },
+    rules: { ...defaults.rules, ...(overrides.rules || {}) },
+    dedup: { ...defaults.dedup, ...(overrides.dedup || {}) },
+    traversal: { ...defaults.traversal, ...(overrides.traversal || {}) }
+  };
+}
+
+// Values built inside the plugin's context have its own prototypes, which strict
+// deep equality tells apart; this copies them into plain values of this realm
+function plain(value) {
+  return JSON.parse(JSON.stringify(value));
+}
+
+module.exports = { createFigmaFake, loadPlugin, createPlugin, testSettings, plain, MIXED };
@@ -0,0 +1,126 @@
+// Fixture documents. Each builder takes the fake's document helpers and returns
+// the nodes and variables that tests refer to by name.
+
+// A checkout screen: named frames, a generic group and frame, and a component
+function buildCheckoutPage(doc) {
+  const title = doc.text('Title', 'Your cart');
+  const checkoutLabel = doc.text('Frame 12', 'Checkout now');
+  const payLabel = doc.text('Label', 'Pay now');
+  const shippingLabel = doc.text('Text', 'Shipping address');
+
+  const page = doc.page('Checkout', [
+    doc.frame('Cart Summary', [
+      title,
+      doc.group('Group 3', [checkoutLabel]),
+      doc.component('Primary Button', [payLabel])
+    ]),
+    doc.frame('Frame 1', [doc.frame('Container', [shippingLabel])])
+  ]);
+
+  return { page, title, checkoutLabel, payLabel, shippingLabel };
+}
+
+// One eligible layer next to one layer for each reason a layer is skipped
+function buildMixedEligibilityPage(doc) {
+  const collection = doc.collection('Strings');
+  const existing = doc.variable(collection, 'greeting', 'Hello');
+
+  const eligible = doc.text('Heading', 'Order summary');
+  const bound = doc.text('Greeting', 'Hello');
+  bound.setBoundVariable('characters', existing);
+  const locked = doc.text('Locked', 'Do not touch', { locked: true });
+  const hidden = doc.text('Hidden', 'Not shown', { visible: false });
+  const insideHidden = doc.text('Nested', 'Also not shown');
+  const numeric = doc.text('Price', '1234');
+  const lorem = doc.text('Body', 'Lorem ipsum dolor sit amet');
+  const symbols = doc.text('Divider', '---');
+
+  const page = doc.page('Orders', [
+    doc.frame('Summary', [eligible, bound, locked, hidden, numeric, lorem, symbols]),
+    doc.frame('Collapsed', [insideHidden], { visible: false })
+  ]);
+
+  return { page, collection, existing, eligible, bound, locked, hidden, insideHidden, numeric, lorem, symbols };
+}
+
+// Two pages with text, for page-scoped scans
+function buildTwoPageDocument(doc) {
+  const first = doc.page('Home', [
+    doc.frame('Hero', [doc.text('Headline', 'Welcome back'), doc.text('Subline', 'Pick up where you left off')])
+  ]);
+  const second = doc.page('Settings', [
+    doc.frame('Profile', [doc.text('Label', 'Display name')])
+  ]);
+  return { first, second };
+}
+
+// Layers bound to a live variable, a deleted variable, and not bound at all
+function buildGhostPage(doc) {
+  const collection = doc.collection('Strings');
+  const live = doc.variable(collection, 'welcome/title', 'Welcome');
+  const deleted = doc.variable(collection, 'welcome/old_title', 'Welcome aboard');
+
+  const healthy = doc.text('Title', 'Welcome');
+  healthy.setBoundVariable('characters', live);
+  const ghost = doc.text('Old Title', 'Welcome aboard');
+  ghost.setBoundVariable('characters', deleted);
+  const unbound = doc.text('Caption', 'No binding here');
+
+  doc.page('Welcome', [doc.frame('Welcome', [healthy, ghost, unbound])]);
+  doc.orphan(deleted);
+
+  return { collection, live, healthy, ghost, unbound };
+}
+
+// Text at several depths inside a section, frames, a group and a component
+function buildNestedPage(doc) {
+  const intro = doc.text('Intro', 'Welcome to the app');
+  const footnote = doc.text('Footnote', 'Terms apply');
+  const draft = doc.text('Draft note', 'Remember to update this');
+  const cardTitle = doc.text('Card title', 'Your plan');
+
+  const details = doc.group('Details', [doc.frame('Legal', [footnote])]);
+  const step = doc.frame('Step 1', [intro, details]);
+  const page = doc.page('Library', [
+    doc.section('Onboarding', [step]),
+    doc.frame('Archive', [draft]),
+    doc.component('Card', [cardTitle])
+  ]);
+
+  return { page, step, details, intro, footnote, draft, cardTitle };
+}
+
+// Text using a local style, a library style and no style, next to a type
+// collection that already holds a 16px font size
+function buildTypographyPage(doc) {
+  const collection = doc.collection('Strings');
+  const typeCollection = doc.collection('Type');
+  const bodySize = doc.variable(typeCollection, 'size/body', 16, 'FLOAT');
+  bodySize.scopes = ['FONT_SIZE'];
+
+  const headingStyle = doc.textStyle('Heading/H1');
+  const libraryStyle = doc.textStyle('Library/Legal', { remote: true });
+
+  const title = doc.text('Title', 'Welcome', {
+    fontSize: 32, fontWeight: 700, lineHeight: { unit: 'PIXELS', value: 40 }, textStyleId: headingStyle.id
+  });
+  const subtitle = doc.text('Subtitle', 'Glad you are here', {
+    fontSize: 32, fontWeight: 700, lineHeight: { unit: 'PIXELS', value: 40 }, textStyleId: headingStyle.id
+  });
+  const body = doc.text('Body', 'Pick a plan', { fontSize: 16, letterSpacing: { unit: 'PERCENT', value: 2 } });
+  const note = doc.text('Note', 'Prices include tax', { fontSize: 16, letterSpacing: { unit: 'PIXELS', value: 0.32 } });
+  const legal = doc.text('Legal', 'Terms apply', { textStyleId: libraryStyle.id });
+
+  const page = doc.page('Pricing', [doc.frame('Plans', [title, subtitle, body, note, legal])]);
+
+  return { page, collection, typeCollection, bodySize, headingStyle, libraryStyle, title, subtitle, body, note, legal };
+}
+
+module.exports = {
+  buildCheckoutPage,
+  buildMixedEligibilityPage,
+  buildTwoPageDocument,
+  buildGhostPage,
+  buildNestedPage,
+  buildTypographyPage
+};
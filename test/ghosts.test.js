@@ -0,0 +1,177 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createPlugin, plain } = require('./figma-fake');
+const { buildGhostPage } = require('./fixtures');
+
+test('scanForGhostVariables', async (t) => {
+  await t.test('finds layers bound to a deleted variable', async () => {
+    const { plugin, fixture } = createPlugin(buildGhostPage);
+    const ghosts = plain(await plugin.scanForGhostVariables());
+
+    assert.deepEqual(ghosts.map(ghost => [ghost.nodeId, ghost.textContent, ghost.bindingType]), [
+      [fixture.ghost.id, 'Welcome aboard', 'characters']
+    ]);
+  });
+
+  await t.test('proposes a replacement in the chosen collection when nothing matches', async () => {
+    const { plugin, fixture } = createPlugin(buildGhostPage);
+    const [ghost] = plain(await plugin.scanForGhostVariables(undefined, fixture.collection.id));
+
+    assert.equal(ghost.match.kind, 'create');
+    assert.equal(ghost.match.collectionId, fixture.collection.id);
+    assert.equal(ghost.match.value, 'Welcome aboard');
+  });
+
+  await t.test('proposes a live variable with the same text', async () => {
+    const { plugin, fake, fixture } = createPlugin(buildGhostPage);
+    const replacement = fake.doc.variable(fixture.collection, 'welcome/aboard', 'Welcome aboard');
+    const [ghost] = plain(await plugin.scanForGhostVariables());
+
+    assert.equal(ghost.match.kind, 'content');
+    assert.equal(ghost.match.variableId, replacement.id);
+  });
+});
+
+test('clearGhostVariables', async (t) => {
+  await t.test('unbinds ghost bindings and leaves live ones alone', async () => {
+    const { plugin, fixture } = createPlugin(buildGhostPage);
+    const result = plain(await plugin.clearGhostVariables([fixture.ghost.id, fixture.healthy.id]));
+
+    assert.equal(result.totalAttempted, 2);
+    assert.equal(result.successfullyCleared, 1);
+    assert.equal(result.failed, 1);
+    assert.deepEqual(result.errors.map(error => [error.nodeId, error.error]), [
+      [fixture.healthy.id, 'No ghost bindings found to clear']
+    ]);
+    assert.equal(fixture.ghost.boundVariables.characters, undefined);
+    assert.equal(fixture.healthy.boundVariables.characters.id, fixture.live.id);
+  });
+
+  await t.test('keeps the text the layer showed', async () => {
+    const { plugin, fixture } = createPlugin(buildGhostPage);
+    await plugin.clearGhostVariables([fixture.ghost.id]);
+
+    assert.equal(fixture.ghost.characters, 'Welcome aboard');
+  });
+
+  await t.test('reports layers that are gone', async () => {
+    const { plugin, fixture } = createPlugin(buildGhostPage);
+    fixture.ghost.remove();
+    const result = plain(await plugin.clearGhostVariables([fixture.ghost.id]));
+
+    assert.equal(result.failed, 1);
+    assert.equal(result.errors[0].error, 'Node no longer exists');
+  });
+
+  await t.test('leaves nothing for a rescan to find', async () => {
+    const { plugin, fixture } = createPlugin(buildGhostPage);
+    await plugin.clearGhostVariables([fixture.ghost.id]);
+
+    assert.deepEqual(plain(await plugin.scanForGhostVariables()), []);
+  });
+});
+
+test('repairGhostVariables', async (t) => {
+  // Two more layers bound to deleted variables, next to the fixture's ghost
+  function addGhosts(fake, fixture) {
+    return ['Board now', 'Gate closes soon'].map((text, i) => {
+      const deleted = fake.doc.variable(fixture.collection, `welcome/gone_${i}`, text);
+      const layer = fake.doc.text(`Ghost ${i}`, text);
+      layer.setBoundVariable('characters', deleted);
+      fixture.healthy.parent.appendChild(layer);
+      fake.doc.orphan(deleted);
+      return layer;
+    });
+  }
+
+  await t.test('creates replacements in the chosen collection and rebinds to them', async () => {
+    const { plugin, fake, fixture } = createPlugin(buildGhostPage);
+    const ghosts = [fixture.ghost, ...addGhosts(fake, fixture)];
+    const result = plain(await plugin.repairGhostVariables(ghosts.map(layer => layer.id), fixture.collection.id));
+
+    assert.deepEqual(result, { rebound: 0, created: 3, failed: 0 });
+    for (const layer of ghosts) {
+      const variable = fake.variables.get(layer.boundVariables.characters.id);
+      assert.equal(variable.variableCollectionId, fixture.collection.id);
+      assert.equal(variable.valuesByMode[fixture.collection.defaultModeId], layer.characters);
+    }
+  });
+
+  await t.test('indexes the target collection once per repair', async () => {
+    const { plugin, fake, fixture } = createPlugin(buildGhostPage);
+    const ghosts = [fixture.ghost, ...addGhosts(fake, fixture)];
+    const getVariable = fake.figma.variables.getVariableByIdAsync;
+    let liveLoads = 0;
+    fake.figma.variables.getVariableByIdAsync = async (id) => {
+      if (id === fixture.live.id) liveLoads++;
+      return getVariable(id);
+    };
+    await plugin.repairGhostVariables(ghosts.map(layer => layer.id), fixture.collection.id);
+
+    // Once for the match index, once for the collection the replacements go into
+    assert.equal(liveLoads, 2);
+  });
+
+  await t.test('journals the repair so a revert undoes it', async () => {
+    const { plugin, fake, fixture } = createPlugin(buildGhostPage);
+    await plugin.repairGhostVariables([fixture.ghost.id], fixture.collection.id);
+    const replacementId = fixture.ghost.boundVariables.characters.id;
+    const journal = plugin.loadRunJournal();
+
+    assert.deepEqual(plain(journal.createdVariableIds), [replacementId]);
+    const rollback = plain(await plugin.rollbackRun(journal));
+
+    assert.equal(rollback.unboundNodes, 1);
+    assert.equal(rollback.deletedVariables, 1);
+    assert.equal(fake.variables.get(replacementId), undefined);
+    assert.equal(fixture.ghost.boundVariables.characters, undefined);
+    assert.equal(fixture.ghost.characters, 'Welcome aboard');
+  });
+});
+
+test('fixDrift', async (t) => {
+  // The healthy layer keeps its binding but shows text of its own
+  function buildDriftPage(doc) {
+    const fixture = buildGhostPage(doc);
+    fixture.healthy.characters = 'Welcome back';
+    fixture.healthy.resolvedVariableModes = { [fixture.collection.id]: fixture.collection.defaultModeId };
+    return fixture;
+  }
+
+  await t.test('journals updated values so a revert restores them', async () => {
+    const { plugin, fixture } = createPlugin(buildDriftPage);
+    const result = plain(await plugin.fixDrift([{ nodeId: fixture.healthy.id, fix: 'update-variable' }]));
+    const modeId = fixture.collection.defaultModeId;
+
+    assert.equal(result.updated, 1);
+    assert.equal(fixture.live.valuesByMode[modeId], 'Welcome back');
+    assert.equal(plain(plugin.summarizeRunJournal(plugin.loadRunJournal())).updatedCount, 1);
+
+    const rollback = plain(await plugin.rollbackRun(plugin.loadRunJournal()));
+    assert.equal(rollback.restoredValues, 1);
+    assert.equal(fixture.live.valuesByMode[modeId], 'Welcome');
+  });
+
+  await t.test('journals forks so a revert moves the layer back and deletes the fork', async () => {
+    const { plugin, fake, fixture } = createPlugin(buildDriftPage);
+    await plugin.fixDrift([{ nodeId: fixture.healthy.id, fix: 'fork-variable' }]);
+    const forkId = fixture.healthy.boundVariables.characters.id;
+
+    assert.notEqual(forkId, fixture.live.id);
+    const rollback = plain(await plugin.rollbackRun(plugin.loadRunJournal()));
+
+    assert.equal(rollback.deletedVariables, 1);
+    assert.equal(fake.variables.get(forkId), undefined);
+    assert.equal(fixture.healthy.boundVariables.characters.id, fixture.live.id);
+  });
+
+  await t.test('keeps the stored run when nothing was journaled', async () => {
+    const { plugin, fixture } = createPlugin(buildDriftPage);
+    const journal = plugin.createRunJournal(fixture.collection.id);
+    journal.createdVariableIds.push('earlier');
+    plugin.saveRunJournal(journal);
+    await plugin.fixDrift([{ nodeId: fixture.healthy.id, fix: 'reset-node' }]);
+
+    assert.deepEqual(plain(plugin.loadRunJournal()).createdVariableIds, ['earlier']);
+  });
+});
@@ -0,0 +1,133 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createPlugin, testSettings } = require('./figma-fake');
+const { buildCheckoutPage } = require('./fixtures');
+
+test('createVariableName', async (t) => {
+  const { plugin, fixture } = createPlugin(buildCheckoutPage);
+  const { title, checkoutLabel, payLabel, shippingLabel } = fixture;
+  const layers = [title, checkoutLabel, payLabel, shippingLabel];
+  const namesFor = (naming) => {
+    const settings = testSettings(plugin, { naming });
+    return layers.map(layer => plugin.createVariableName(layer.characters, layer, settings));
+  };
+
+  await t.test('names after the component or meaningful parent by default', () => {
+    assert.deepEqual(namesFor({}), [
+      'cart_summary/title',
+      'cart_summary/frame_12',
+      'primary_button/label',
+      'text'
+    ]);
+  });
+
+  await t.test('skips generic frames and groups in ancestor paths', () => {
+    assert.deepEqual(namesFor({ strategy: 'path' }), [
+      'cart_summary/title',
+      'cart_summary/group_3/frame_12',
+      'cart_summary/primary_button/label',
+      'frame_1/container/text'
+    ]);
+  });
+
+  await t.test('names from the text content', () => {
+    assert.deepEqual(namesFor({ strategy: 'content' }), ['your_cart', 'checkout_now', 'pay_now', 'shipping_address']);
+  });
+
+  await t.test('names from the layer alone', () => {
+    assert.deepEqual(namesFor({ strategy: 'layer' }), ['title', 'frame_12', 'label', 'text']);
+  });
+
+  await t.test('fills a template with the page and component', () => {
+    assert.deepEqual(namesFor({ strategy: 'template' }), [
+      'checkout/title',
+      'checkout/frame_12',
+      'checkout/primary_button/label',
+      'checkout/text'
+    ]);
+  });
+
+  await t.test('applies the configured casing to every group', () => {
+    const settings = testSettings(plugin, { naming: { casing: 'camel' } });
+    assert.equal(plugin.createVariableName(title.characters, title, settings), 'cartSummary/title');
+  });
+
+  await t.test('names from the content when there is no layer', () => {
+    assert.equal(plugin.createVariableName('Hello World!'), 'hello_world');
+  });
+
+  await t.test('rejects empty text', () => {
+    const PluginError = plugin.evaluate('PluginError');
+    assert.throws(() => plugin.createVariableName('   '), error => {
+      assert.ok(error instanceof PluginError);
+      assert.equal(error.code, 'INVALID_TEXT');
+      return true;
+    });
+  });
+
+  await t.test('truncates names longer than the configured maximum', () => {
+    const settings = testSettings(plugin, { naming: { strategy: 'content' }, maxVariableNameLength: 20 });
+    const name = plugin.createVariableName('Please confirm your shipping address before paying', shippingLabel, settings);
+    assert.ok(name.length <= 20, name);
+  });
+});
+
+test('isGenericName', async (t) => {
+  const { plugin } = createPlugin();
+
+  await t.test('recognises default layer names', () => {
+    for (const name of ['Frame', 'frame_12', 'Group', 'group_3', 'Auto Layout', 'autolayout_2', 'Rectangle', 'Vector', 'Untitled', '42', 'layer_7']) {
+      assert.equal(plugin.isGenericName(name), true, name);
+    }
+  });
+
+  await t.test('keeps names someone chose', () => {
+    for (const name of ['Cart Summary', 'frame_header', 'group_buy', 'Primary Button', 'v2_title', 'Line items']) {
+      assert.equal(plugin.isGenericName(name), false, name);
+    }
+  });
+});
+
+test('truncateVariableName', async (t) => {
+  const { plugin } = createPlugin();
+  const longName = 'checkout/payment_details_section/billing_address_form/street_name_label';
+
+  await t.test('leaves names within the limit alone', () => {
+    assert.equal(plugin.truncateVariableName('checkout/title', 50), 'checkout/title');
+  });
+
+  await t.test('abbreviates middle groups before the top-level group and keeps the leaf', () => {
+    assert.equal(plugin.truncateVariableName(longName, 50), 'checkout/p_d_s/bil_add_for/street_name_label_4fdjk');
+  });
+
+  await t.test('abbreviates the top-level group and shrinks groups to a letter before touching the leaf', () => {
+    assert.equal(plugin.truncateVariableName(longName, 40), 'che/p_d_s/b_a_f/street_name_label_4fdjk');
+    assert.equal(plugin.truncateVariableName(longName, 30), 'c/p/b/street_name_label_4fdjk');
+  });
+
+  await t.test('cuts the leaf rather than leaving the group tree', () => {
+    assert.equal(plugin.truncateVariableName(longName, 15), 'c/p/b/str_4fdjk');
+    assert.equal(plugin.truncateVariableName('aa/bb/cc/dd/ee/ff/gg/hh/ii/jj/kk/ll/street_name_label', 30), 'a/b/c/d/e/f/g/h/i/j/k/st_y4o71');
+  });
+
+  await t.test('drops innermost groups only when one letter of the leaf would not fit', () => {
+    assert.equal(plugin.truncateVariableName(longName, 12), 'c/p/st_4fdjk');
+    assert.equal(plugin.truncateVariableName(longName, 10), 'c/st_4fdjk');
+  });
+
+  await t.test('keeps names that shorten alike apart', () => {
+    const other = plugin.truncateVariableName(longName.replace('street', 'house'), 30);
+    assert.notEqual(other, plugin.truncateVariableName(longName, 30));
+    assert.ok(other.length <= 30);
+  });
+
+  await t.test('is stable across calls', () => {
+    assert.equal(plugin.truncateVariableName(longName, 40), plugin.truncateVariableName(longName, 40));
+  });
+
+  await t.test('never exceeds the limit', () => {
+    for (const maxLength of [10, 15, 25, 35, 45]) {
+      assert.ok(plugin.truncateVariableName(longName, maxLength).length <= maxLength, String(maxLength));
+    }
+  });
+});
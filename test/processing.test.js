@@ -0,0 +1,251 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createPlugin, testSettings, plain } = require('./figma-fake');
+const { buildCheckoutPage, buildMixedEligibilityPage } = require('./fixtures');
+
+// The checkout page with a two-mode collection that already holds the title
+// and a different string under the button label's name
+function buildCheckoutWithStrings(doc) {
+  const fixture = buildCheckoutPage(doc);
+  const collection = doc.collection('Strings', ['en', 'de']);
+  const title = doc.variable(collection, 'cart_summary/title', 'Your cart');
+  const buttonLabel = doc.variable(collection, 'primary_button/label', 'Buy');
+  return { ...fixture, collection, variables: { title, buttonLabel } };
+}
+
+async function run(plugin, collection, textLayers, overrides = {}, modeId = collection.defaultModeId) {
+  const journal = plugin.createRunJournal(collection.id);
+  const result = await plugin.processTextLayersWithProgress(textLayers, collection.id, modeId, journal, testSettings(plugin, overrides));
+  return { result: plain(result), journal: plain(journal) };
+}
+
+function layersOf(fixture) {
+  return [fixture.title, fixture.checkoutLabel, fixture.payLabel, fixture.shippingLabel];
+}
+
+test('processTextLayersWithProgress', async (t) => {
+  await t.test('creates, connects and binds a variable for every layer', async () => {
+    const { plugin, fake, fixture } = createPlugin(buildCheckoutWithStrings);
+    const { result } = await run(plugin, fixture.collection, layersOf(fixture));
+
+    assert.equal(result.created, 3);
+    assert.equal(result.connected, 1);
+    assert.equal(result.errors, 0);
+    assert.equal(result.totalProcessed, 4);
+    assert.equal(result.cancelled, false);
+    assert.deepEqual(
+      result.outcomes.map(outcome => [outcome.nodeName, outcome.action, outcome.variableName]),
+      [
+        ['Title', 'connected', 'cart_summary/title'],
+        ['Frame 12', 'created', 'cart_summary/frame_12'],
+        ['Label', 'created', 'primary_button/label_2'],
+        ['Text', 'created', 'text']
+      ]
+    );
+
+    for (const layer of layersOf(fixture)) {
+      const variable = fake.variables.get(layer.boundVariables.characters.id);
+      assert.equal(variable.valuesByMode[fixture.collection.defaultModeId], layer.characters, layer.name);
+    }
+    assert.equal(fixture.title.boundVariables.characters.id, fixture.variables.title.id);
+  });
+
+  await t.test('suffixes names already taken by other text', async () => {
+    const { plugin, fake, fixture } = createPlugin(buildCheckoutWithStrings);
+    await run(plugin, fixture.collection, layersOf(fixture));
+    const second = fake.doc.text('Label', 'Pay later');
+    fixture.payLabel.parent.appendChild(second);
+    const { result } = await run(plugin, fixture.collection, [second]);
+
+    assert.equal(result.outcomes[0].variableName, 'primary_button/label_3');
+  });
+
+  await t.test('journals what it created and bound', async () => {
+    const { plugin, fixture } = createPlugin(buildCheckoutWithStrings);
+    const { result, journal } = await run(plugin, fixture.collection, layersOf(fixture));
+    const createdIds = result.outcomes.filter(outcome => outcome.action === 'created').map(outcome => outcome.variableId);
+
+    assert.deepEqual(journal.createdVariableIds, createdIds);
+    assert.deepEqual(
+      journal.boundNodes.map(entry => [entry.nodeId, entry.originalCharacters]),
+      layersOf(fixture).map(layer => [layer.id, layer.characters])
+    );
+  });
+
+  await t.test('fills the other modes as configured', async () => {
+    const { plugin, fake, fixture } = createPlugin(buildCheckoutWithStrings);
+    const [en, de] = fixture.collection.modes.map(mode => mode.modeId);
+    await run(plugin, fixture.collection, [fixture.checkoutLabel], { modeFill: 'placeholder' });
+
+    const variable = fake.variables.get(fixture.checkoutLabel.boundVariables.characters.id);
+    assert.equal(variable.valuesByMode[en], 'Checkout now');
+    assert.equal(variable.valuesByMode[de], '[de] Checkout now');
+  });
+
+  await t.test('writes into the chosen mode and keeps the text in the default mode', async () => {
+    const { plugin, fake, fixture } = createPlugin(buildCheckoutWithStrings);
+    const [en, de] = fixture.collection.modes.map(mode => mode.modeId);
+    await run(plugin, fixture.collection, [fixture.shippingLabel], { modeFill: 'empty' }, de);
+
+    const variable = fake.variables.get(fixture.shippingLabel.boundVariables.characters.id);
+    assert.equal(variable.valuesByMode[de], 'Shipping address');
+    assert.equal(variable.valuesByMode[en], 'Shipping address');
+    assert.equal(fixture.shippingLabel.characters, 'Shipping address');
+  });
+
+  await t.test('shares one variable between equal strings when deduplicating', async () => {
+    const { plugin, fake, fixture } = createPlugin(buildCheckoutWithStrings);
+    const again = fake.doc.text('Caption', 'checkout NOW');
+    fixture.page.children[1].appendChild(again);
+    const { result } = await run(plugin, fixture.collection, [fixture.checkoutLabel, again], {
+      dedup: { enabled: true, ignoreCase: true }
+    });
+
+    assert.equal(result.created, 1);
+    assert.equal(result.connected, 1);
+    assert.equal(again.boundVariables.characters.id, fixture.checkoutLabel.boundVariables.characters.id);
+  });
+
+  await t.test('records placeholders only on the variables it creates', async () => {
+    const { plugin, fake, fixture } = createPlugin(buildCheckoutWithStrings);
+    const existing = fake.doc.variable(fixture.collection, 'cart_summary/count', 'Total 3 items');
+    const connected = fake.doc.text('Count', 'Total 3 items');
+    const created = fake.doc.text('Due', 'Due in 5 days');
+    fixture.page.children[0].appendChild(connected);
+    fixture.page.children[0].appendChild(created);
+    await run(plugin, fixture.collection, [connected, created], { dedup: { enabled: true } });
+
+    assert.equal(connected.boundVariables.characters.id, existing.id);
+    assert.equal(existing.getPluginData('stringify:placeholders'), '');
+    const variable = fake.variables.get(created.boundVariables.characters.id);
+    assert.match(variable.getPluginData('stringify:placeholders'), /Due in \{/);
+  });
+
+  await t.test('reports why layers were skipped', async () => {
+    const { plugin, fixture } = createPlugin(buildMixedEligibilityPage);
+    const layers = fixture.page.findAll(node => node.type === 'TEXT');
+    const { result } = await run(plugin, fixture.collection, layers);
+
+    assert.equal(result.created, 1);
+    assert.equal(result.skipped, 7);
+    assert.deepEqual(
+      result.outcomes.filter(outcome => outcome.action === 'skipped').map(outcome => outcome.skipReason),
+      ['bound', 'locked', 'hidden', 'numeric-only', 'lorem-ipsum', 'no-letters', 'hidden']
+    );
+  });
+
+  await t.test('records failed layers with their error code and carries on', async () => {
+    const { plugin, fixture } = createPlugin(buildCheckoutWithStrings);
+    fixture.checkoutLabel.setBoundVariable = () => { throw new Error('Layer is read-only'); };
+    const { result } = await run(plugin, fixture.collection, layersOf(fixture));
+    const failed = result.outcomes.find(outcome => outcome.action === 'failed');
+
+    assert.equal(result.errors, 1);
+    assert.equal(result.totalProcessed, 3);
+    assert.equal(failed.nodeId, fixture.checkoutLabel.id);
+    assert.equal(failed.errorCode, 'BINDING_FAILED');
+    assert.equal(failed.context.originalError, 'Error: Layer is read-only');
+  });
+
+  await t.test('reports progress per batch', async () => {
+    const { plugin, fake, fixture } = createPlugin(buildCheckoutWithStrings);
+    await run(plugin, fixture.collection, layersOf(fixture), { batchSize: 2 });
+
+    assert.deepEqual(
+      fake.messages.filter(message => message.type === 'progress-update').map(message => [message.progress, message.remaining]),
+      [[50, 2], [100, 0]]
+    );
+  });
+
+  await t.test('stops before the next batch when cancelled', async () => {
+    const { plugin, fixture } = createPlugin(buildCheckoutWithStrings);
+    plugin.evaluate('cancelRequested = true');
+    const { result } = await run(plugin, fixture.collection, layersOf(fixture));
+
+    assert.equal(result.cancelled, true);
+    assert.equal(result.totalProcessed, 0);
+    assert.equal(fixture.shippingLabel.boundVariables.characters, undefined);
+  });
+
+  await t.test('replaces the stored journal even when the run changes nothing', async () => {
+    const { plugin, fixture } = createPlugin(buildCheckoutWithStrings);
+    await run(plugin, fixture.collection, [fixture.shippingLabel]);
+    assert.equal(plain(plugin.loadRunJournal()).boundNodes.length, 1);
+
+    plugin.evaluate('cancelRequested = true');
+    await run(plugin, fixture.collection, layersOf(fixture));
+
+    assert.equal(plugin.loadRunJournal(), null);
+  });
+
+  await t.test('extends the last run when retrying into another collection', async () => {
+    const { plugin, fake, fixture } = createPlugin(buildCheckoutWithStrings);
+    await run(plugin, fixture.collection, [fixture.shippingLabel]);
+    const other = fake.doc.collection('Other', ['en']);
+    await plugin.handleRetryLayers(other.id, [fixture.payLabel.id]);
+    const journal = plain(plugin.loadRunJournal());
+
+    assert.deepEqual(journal.collectionIds, [fixture.collection.id, other.id]);
+    assert.deepEqual(journal.boundNodes.map(entry => entry.nodeId), [fixture.shippingLabel.id, fixture.payLabel.id]);
+  });
+
+  await t.test('summarizes journals that only split layers or bound typography', () => {
+    const { plugin, fixture } = createPlugin(buildCheckoutWithStrings);
+    const journal = plugin.createRunJournal(fixture.collection.id);
+    assert.equal(plugin.summarizeRunJournal(journal), null);
+
+    journal.typographyBindings.push({ targetId: fixture.title.id, isStyle: false, field: 'fontSize', variableId: 'v' });
+    journal.splitNodes.push({ originalNodeId: fixture.title.id, containerId: 'c' });
+    const summary = plain(plugin.summarizeRunJournal(journal));
+
+    assert.equal(summary.boundCount, 0);
+    assert.equal(summary.splitCount, 1);
+    assert.equal(summary.propertyCount, 0);
+    assert.equal(summary.typographyCount, 1);
+  });
+
+  await t.test('rejects a collection that no longer exists', async () => {
+    const { plugin, fixture } = createPlugin(buildCheckoutWithStrings);
+    const journal = plugin.createRunJournal('missing');
+
+    await assert.rejects(
+      plugin.processTextLayersWithProgress(layersOf(fixture), 'missing', 'mode', journal, testSettings(plugin)),
+      { code: 'COLLECTION_NOT_FOUND' }
+    );
+  });
+});
+
+test('resolvePlanSelection', async (t) => {
+  const rowsFor = (...entries) => entries.map(([layer, variableName]) => ({ nodeId: layer.id, variableName }));
+
+  await t.test('keeps edited names that are free or already hold the same text', async () => {
+    const { plugin, fixture } = createPlugin(buildCheckoutWithStrings);
+    const { textLayers, nameOverrides } = await plugin.resolvePlanSelection(
+      rowsFor([fixture.title, 'cart_summary/title'], [fixture.payLabel, 'checkout/pay'], [fixture.shippingLabel, ' ']),
+      fixture.collection.id
+    );
+
+    assert.deepEqual(plain(textLayers.map(layer => layer.name)), ['Title', 'Label']);
+    assert.equal(nameOverrides.get(fixture.payLabel.id), 'checkout/pay');
+  });
+
+  await t.test('refuses names another variable or row already holds', async () => {
+    const { plugin, fixture } = createPlugin(buildCheckoutWithStrings);
+
+    await assert.rejects(
+      plugin.resolvePlanSelection(
+        rowsFor([fixture.payLabel, 'primary_button/label'], [fixture.title, 'checkout/copy'], [fixture.shippingLabel, 'checkout/copy']),
+        fixture.collection.id
+      ),
+      { code: 'VARIABLE_NAME_TAKEN', message: /taken in the collection: primary_button\/label, checkout\/copy\./ }
+    );
+  });
+
+  await t.test('leaves conflicts to the run when deduplicating', async () => {
+    const { plugin, fixture } = createPlugin(buildCheckoutWithStrings);
+    const settings = testSettings(plugin, { dedup: { enabled: true } });
+    const { textLayers } = await plugin.resolvePlanSelection(rowsFor([fixture.payLabel, 'primary_button/label']), fixture.collection.id, undefined, settings);
+
+    assert.equal(textLayers.length, 1);
+  });
+});
@@ -0,0 +1,124 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createPlugin, testSettings, plain } = require('./figma-fake');
+const { buildMixedEligibilityPage, buildTwoPageDocument } = require('./fixtures');
+
+test('validateTextLayer', async (t) => {
+  const { plugin, fixture } = createPlugin(buildMixedEligibilityPage);
+
+  await t.test('accepts plain visible text', () => {
+    assert.equal(plugin.validateTextLayer(fixture.eligible), true);
+  });
+
+  await t.test('gives the reason for each skipped layer', () => {
+    const reasons = {
+      bound: 'bound',
+      locked: 'locked',
+      hidden: 'hidden',
+      insideHidden: 'hidden',
+      numeric: 'numeric-only',
+      lorem: 'lorem-ipsum',
+      symbols: 'no-letters'
+    };
+    for (const [key, reason] of Object.entries(reasons)) {
+      assert.equal(plugin.validateTextLayer(fixture[key]), false, key);
+      assert.equal(plugin.getTextLayerSkipReason(fixture[key]), reason, key);
+    }
+  });
+
+  await t.test('applies the rules it is given', () => {
+    const { rules } = testSettings(plugin, { rules: { skipNumericOnly: false, exclude: ['^Order'] } });
+    assert.equal(plugin.validateTextLayer(fixture.numeric, rules), true);
+    assert.equal(plugin.getTextLayerSkipReason(fixture.eligible, rules), 'excluded');
+  });
+
+  await t.test('treats a layer it cannot read as unreadable', () => {
+    const broken = { id: 'broken', name: 'Broken', boundVariables: {}, get locked() { throw new Error('gone'); } };
+    assert.equal(plugin.getTextLayerSkipReason(broken), 'unreadable');
+  });
+});
+
+test('scan scope', async (t) => {
+  await t.test('scans the whole page without a selection', () => {
+    const { plugin } = createPlugin(buildMixedEligibilityPage);
+    const scope = plugin.determineScanScope();
+
+    assert.equal(scope.type, 'page');
+    assert.equal(scope.textNodeCount, 1);
+    assert.deepEqual(plain(plugin.findTextNodesInScope(scope).map(node => node.name)), ['Heading']);
+    assert.deepEqual(
+      plain(plugin.findSkippedTextLayers(scope).map(layer => `${layer.name}:${layer.reason}`)),
+      ['Greeting:bound', 'Locked:locked', 'Hidden:hidden', 'Price:numeric-only', 'Body:lorem-ipsum', 'Divider:no-letters', 'Nested:hidden']
+    );
+  });
+
+  await t.test('scans a selected frame', () => {
+    const { plugin, fake, fixture } = createPlugin(buildMixedEligibilityPage);
+    fake.figma.currentPage.selection = [fixture.page.children[0]];
+    const scope = plugin.determineScanScope();
+
+    assert.equal(scope.type, 'selection');
+    assert.equal(scope.textNodeCount, 1);
+    assert.equal(scope.description, 'Scanning 1 selected item');
+    assert.deepEqual(plain(plugin.findTextNodesInScope(scope).map(node => node.name)), ['Heading']);
+    assert.equal(plugin.findSkippedTextLayers(scope).length, 6);
+  });
+
+  await t.test('scans a selected text layer on its own', () => {
+    const { plugin, fake, fixture } = createPlugin(buildMixedEligibilityPage);
+    fake.figma.currentPage.selection = [fixture.eligible];
+
+    assert.deepEqual(plain(plugin.findTextNodesInScope(plugin.determineScanScope()).map(node => node.name)), ['Heading']);
+  });
+
+  await t.test('splits eligible from skipped layers in one walk', () => {
+    const { plugin, fake, fixture } = createPlugin(buildMixedEligibilityPage);
+    fake.figma.currentPage.selection = [fixture.page.children[0]];
+    const scope = plugin.determineScanScope(false);
+    const { eligible, skipped } = plugin.partitionScannedTextNodes(scope);
+
+    assert.equal(scope.textNodeCount, 0);
+    assert.deepEqual(plain(eligible.map(node => node.name)), ['Heading']);
+    assert.deepEqual(plain(skipped), plain(plugin.findSkippedTextLayers(scope)));
+  });
+
+  await t.test('describes the scope for the UI', () => {
+    const { plugin, fake, fixture } = createPlugin(buildMixedEligibilityPage);
+    const pagePreview = plugin.createScanPreview(plugin.determineScanScope());
+    assert.equal(pagePreview.hasSelection, false);
+    assert.equal(pagePreview.selectionSummary, undefined);
+
+    fake.figma.currentPage.selection = [fixture.eligible, fixture.locked];
+    const selectionPreview = plugin.createScanPreview(plugin.determineScanScope());
+    assert.equal(selectionPreview.hasSelection, true);
+    assert.equal(selectionPreview.textLayerCount, 1);
+    assert.equal(selectionPreview.scopeDescription, 'Scanning 2 selected items');
+  });
+
+  await t.test('summarizes every page with its eligible layer count', async () => {
+    const { plugin, fixture } = createPlugin(buildTwoPageDocument);
+    const pages = await plugin.summarizePages();
+
+    assert.deepEqual(plain(pages), [
+      { id: fixture.first.id, name: 'Home', textLayerCount: 2, isCurrent: true },
+      { id: fixture.second.id, name: 'Settings', textLayerCount: 1, isCurrent: false }
+    ]);
+  });
+
+  await t.test('scans only the picked pages', async () => {
+    const { plugin, fixture } = createPlugin(buildTwoPageDocument);
+    const { scope, textLayers } = await plugin.resolveScan([fixture.second.id]);
+
+    assert.equal(scope.type, 'document');
+    assert.equal(scope.description, 'Scanning 1 page');
+    assert.deepEqual(plain(scope.pageIds), [fixture.second.id]);
+    assert.deepEqual(plain(textLayers.map(node => node.name)), ['Label']);
+  });
+
+  await t.test('rejects an empty or stale page pick', async () => {
+    const { plugin } = createPlugin(buildTwoPageDocument);
+
+    await assert.rejects(plugin.resolveScan([]), { message: 'Choose at least one page to scan' });
+    await assert.rejects(plugin.resolveScan(['404:1']), { message: 'None of the chosen pages exist anymore' });
+  });
+});
@@ -0,0 +1,105 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createPlugin, testSettings, plain } = require('./figma-fake');
+const { buildNestedPage, buildMixedEligibilityPage } = require('./fixtures');
+
+test('collectTextNodes', async (t) => {
+  const { plugin, fixture } = createPlugin(buildNestedPage);
+  const namesFor = (roots, traversal = {}) =>
+    plain(plugin.collectTextNodes(roots, testSettings(plugin, { traversal }).traversal).map(node => node.name));
+
+  await t.test('collects every text layer in document order by default', () => {
+    assert.deepEqual(namesFor([fixture.page]), ['Intro', 'Footnote', 'Draft note', 'Card title']);
+  });
+
+  await t.test('stops at the maximum depth below the root', () => {
+    assert.deepEqual(namesFor([fixture.page], { maxDepth: 3 }), ['Intro', 'Draft note', 'Card title']);
+    assert.deepEqual(namesFor([fixture.step], { maxDepth: 1 }), ['Intro']);
+  });
+
+  await t.test('only descends into the configured layer types', () => {
+    assert.deepEqual(namesFor([fixture.page], { descendInto: ['SECTION', 'FRAME'] }), ['Intro', 'Draft note']);
+  });
+
+  await t.test('always enters the roots it is given', () => {
+    assert.deepEqual(namesFor([fixture.details], { descendInto: ['FRAME'] }), ['Footnote']);
+    assert.deepEqual(namesFor([fixture.details], { descendInto: [] }), []);
+  });
+
+  await t.test('leaves out layers whose names are excluded, with everything inside them', () => {
+    assert.deepEqual(namesFor([fixture.page], { exclude: ['^archive$', '^legal'] }), ['Intro', 'Card title']);
+  });
+
+  await t.test('keeps only text inside or named like an included layer', () => {
+    assert.deepEqual(namesFor([fixture.page], { include: ['^Onboarding$'] }), ['Intro', 'Footnote']);
+    assert.deepEqual(namesFor([fixture.page], { include: ['title'] }), ['Card title']);
+  });
+
+  await t.test('collects a layer reachable from several roots once', () => {
+    assert.deepEqual(namesFor([fixture.intro, fixture.step, fixture.page]), ['Intro', 'Footnote', 'Draft note', 'Card title']);
+  });
+});
+
+test('selection scans', async (t) => {
+  await t.test('count a layer selected along with its frame once', () => {
+    const { plugin, fake, fixture } = createPlugin(buildNestedPage);
+    fake.figma.currentPage.selection = [fixture.step, fixture.intro, fixture.details];
+    const scope = plugin.determineScanScope();
+
+    assert.equal(scope.textNodeCount, 2);
+    assert.deepEqual(plain(plugin.findTextNodesInScope(scope).map(node => node.name)), ['Intro', 'Footnote']);
+  });
+});
+
+test('hidden and locked layers', async (t) => {
+  await t.test('are skipped unless the traversal settings opt into them', () => {
+    const { plugin, fixture } = createPlugin(buildMixedEligibilityPage);
+    const { rules, traversal } = testSettings(plugin, { traversal: { includeHidden: true, includeLocked: true } });
+
+    for (const key of ['locked', 'hidden', 'insideHidden']) {
+      assert.notEqual(plugin.getTextLayerSkipReason(fixture[key]), null, key);
+      assert.equal(plugin.getTextLayerSkipReason(fixture[key], rules, traversal), null, key);
+    }
+  });
+
+  await t.test('count toward the scan scope once opted into', () => {
+    const { plugin } = createPlugin(buildMixedEligibilityPage);
+    plugin.evaluate("activeSettings = mergeSettings(DEFAULT_SETTINGS, { traversal: { includeHidden: true } })");
+    const scope = plugin.determineScanScope();
+
+    assert.equal(scope.textNodeCount, 3);
+    assert.deepEqual(plain(plugin.findTextNodesInScope(scope).map(node => node.name)), ['Heading', 'Hidden', 'Nested']);
+  });
+
+  await t.test('can be bound once opted into', async () => {
+    const { plugin, fixture } = createPlugin(buildMixedEligibilityPage);
+    const journal = plugin.createRunJournal(fixture.collection.id);
+    const settings = testSettings(plugin, { traversal: { includeLocked: true } });
+    const result = plain(await plugin.processTextLayersWithProgress([fixture.locked], fixture.collection.id, fixture.collection.defaultModeId, journal, settings));
+
+    assert.equal(result.created, 1);
+    assert.ok(fixture.locked.boundVariables.characters);
+  });
+});
+
+test('traversal settings', async (t) => {
+  const { plugin } = createPlugin();
+
+  await t.test('accepts valid values', () => {
+    const { overrides, errors } = plain(plugin.validateSettingsOverrides({
+      traversal: { maxDepth: 5, descendInto: ['FRAME'], exclude: ['^_'], includeHidden: true }
+    }));
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(overrides.traversal, { maxDepth: 5, descendInto: ['FRAME'], exclude: ['^_'], includeHidden: true });
+  });
+
+  await t.test('rejects out-of-range depths, unknown types and broken patterns', () => {
+    const { overrides, errors } = plain(plugin.validateSettingsOverrides({
+      traversal: { maxDepth: 0, descendInto: ['TEXT'], include: ['('], includeLocked: 'yes' }
+    }));
+
+    assert.equal(overrides.traversal, undefined);
+    assert.equal(errors.length, 4);
+  });
+});
@@ -0,0 +1,116 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createPlugin, testSettings, plain } = require('./figma-fake');
+const { buildTypographyPage } = require('./fixtures');
+
+function layersOf(fixture) {
+  return [fixture.title, fixture.subtitle, fixture.body, fixture.note, fixture.legal];
+}
+
+async function run(plugin, fixture, { typography = true } = {}) {
+  const typographyCollectionId = typography ? fixture.typeCollection.id : undefined;
+  const journal = plugin.createRunJournal(fixture.collection.id);
+  const result = await plugin.processTextLayersWithProgress(
+    layersOf(fixture), fixture.collection.id, fixture.collection.defaultModeId, journal, testSettings(plugin), undefined, typographyCollectionId
+  );
+  return { result: plain(result), journal };
+}
+
+function typeVariables(fake, fixture) {
+  return fixture.typeCollection.variableIds.map(id => fake.variables.get(id));
+}
+
+test('typography binding', async (t) => {
+  await t.test('binds text through its local style once, named after the style', async () => {
+    const { plugin, fake, fixture } = createPlugin(buildTypographyPage);
+    await run(plugin, fixture);
+    const names = typeVariables(fake, fixture).map(variable => variable.name);
+
+    assert.deepEqual(Object.keys(fixture.headingStyle.boundVariables), ['fontFamily', 'fontSize', 'fontWeight', 'letterSpacing', 'lineHeight']);
+    assert.equal(fake.variables.get(fixture.headingStyle.boundVariables.fontSize.id).name, 'typography/heading/h1/font_size');
+    assert.deepEqual(Object.keys(fixture.title.boundVariables), ['characters']);
+    assert.equal(names.filter(name => name.startsWith('typography/heading/h1/')).length, 5);
+  });
+
+  await t.test('binds unstyled text on the layer, named after its role', async () => {
+    const { plugin, fake, fixture } = createPlugin(buildTypographyPage);
+    await run(plugin, fixture);
+    const weight = fake.variables.get(fixture.body.boundVariables.fontWeight[0].id);
+
+    assert.equal(weight.name, 'typography/body/font_weight');
+    assert.equal(weight.resolvedType, 'FLOAT');
+    assert.deepEqual(plain(weight.scopes), ['FONT_WEIGHT']);
+    assert.equal(fixture.body.boundVariables.lineHeight, undefined);
+  });
+
+  await t.test('shares one variable per value, reusing scoped variables already in the collection', async () => {
+    const { plugin, fake, fixture } = createPlugin(buildTypographyPage);
+    await run(plugin, fixture);
+    const family = fixture.headingStyle.boundVariables.fontFamily.id;
+
+    assert.equal(fixture.body.boundVariables.fontSize[0].id, fixture.bodySize.id);
+    assert.equal(fixture.body.boundVariables.fontFamily[0].id, family);
+    assert.equal(fixture.note.boundVariables.fontFamily[0].id, family);
+    // Two percent of 16px is the same letter spacing as 0.32px
+    assert.equal(fixture.note.boundVariables.letterSpacing[0].id, fixture.body.boundVariables.letterSpacing[0].id);
+    assert.equal(fake.variables.get(family).resolvedType, 'STRING');
+  });
+
+  await t.test('leaves text using a library style alone', async () => {
+    const { plugin, fixture } = createPlugin(buildTypographyPage);
+    await run(plugin, fixture);
+
+    assert.deepEqual(Object.keys(fixture.legal.boundVariables), ['characters']);
+    assert.deepEqual(fixture.libraryStyle.boundVariables, {});
+  });
+
+  await t.test('counts the bindings and journals them', async () => {
+    const { plugin, fixture } = createPlugin(buildTypographyPage);
+    const { result, journal } = await run(plugin, fixture);
+
+    assert.equal(result.typographyBound, 13);
+    assert.equal(result.created, 5);
+    assert.equal(journal.typographyBindings.length, 13);
+    assert.match(plugin.createProcessingSummary(result), /bound 13 typography properties/);
+  });
+
+  await t.test('reports a failed typography binding on the layer without failing it', async () => {
+    const { plugin, fixture } = createPlugin(buildTypographyPage);
+    const bindText = fixture.body.setBoundVariable.bind(fixture.body);
+    fixture.body.setBoundVariable = (field, variable) => {
+      if (field === 'fontWeight') throw new Error('Weight is locked');
+      bindText(field, variable);
+    };
+    const { result } = await run(plugin, fixture);
+    const outcomes = result.outcomes.filter(outcome => outcome.nodeId === fixture.body.id);
+
+    assert.equal(result.errors, 0);
+    assert.equal(result.typographyFailed, 1);
+    assert.deepEqual(outcomes.map(outcome => outcome.action), ['created']);
+    assert.equal(outcomes[0].typographyErrors.length, 1);
+    assert.match(outcomes[0].typographyErrors[0], /^Failed to bind font weight: .*Weight is locked$/);
+    assert.ok(fixture.body.boundVariables.characters);
+    assert.ok(fixture.body.boundVariables.letterSpacing);
+  });
+
+  await t.test('binds nothing without a typography collection', async () => {
+    const { plugin, fixture } = createPlugin(buildTypographyPage);
+    const { result } = await run(plugin, fixture, { typography: false });
+
+    assert.equal(result.typographyBound, 0);
+    assert.deepEqual(fixture.headingStyle.boundVariables, {});
+    assert.equal(fixture.typeCollection.variableIds.length, 1);
+  });
+
+  await t.test('is undone by a rollback', async () => {
+    const { plugin, fixture } = createPlugin(buildTypographyPage);
+    const { journal } = await run(plugin, fixture);
+    const rollback = plain(await plugin.rollbackRun(journal));
+
+    assert.equal(rollback.unboundTypography, 13);
+    assert.equal(rollback.failed, 0);
+    assert.deepEqual(fixture.headingStyle.boundVariables, {});
+    assert.deepEqual(Object.keys(fixture.body.boundVariables), []);
+    assert.deepEqual(plain(fixture.typeCollection.variableIds), [fixture.bodySize.id]);
+  });
+});